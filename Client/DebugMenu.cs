@@ -135,7 +135,7 @@ namespace LunaStatusQuests
                                 foreach (var quest in category.Value)
                                 {
                                     GUILayout.Label(
-                                        $"    - {quest.QuestName}: {_uiService.GetStatusName(quest.Status)}"
+                                        $"    - {quest.QuestName}: {_uiService.GetStatusName(quest.DisplayStatus)}"
                                     );
                                 }
                             }
@@ -156,7 +156,7 @@ namespace LunaStatusQuests
 
             foreach (var quest in quests.Values)
             {
-                var statusName = _uiService.GetStatusName(quest.Status);
+                var statusName = _uiService.GetStatusName(quest.DisplayStatus);
                 if (!grouped.ContainsKey(statusName))
                 {
                     grouped[statusName] = new List<QuestStatusInfo>();
@@ -1,5 +1,6 @@
 using System;
 using System.Collections;
+using System.Collections.Generic;
 using BepInEx;
 using BepInEx.Logging;
 using EFT.UI;
@@ -25,6 +26,10 @@ namespace LunaStatusQuests
         Fail2 = 7,
         Expired = 8,
         TimeExpired = 9,
+
+        // Quests the profile can never start (other faction, excluded branch, failed prerequisite).
+        // The server reports them as Locked with an unreachableReason; see QuestStatusInfo.DisplayStatus.
+        Unreachable = 100,
     }
 
     /// <summary>
@@ -38,8 +43,44 @@ namespace LunaStatusQuests
         [Newtonsoft.Json.JsonProperty("lockedReason")]
         public string LockedReason { get; set; }
 
+        [Newtonsoft.Json.JsonProperty("lockReasons")]
+        public List<LockReasonInfo> LockReasons { get; set; }
+
+        [Newtonsoft.Json.JsonProperty("unreachableReason")]
+        public UnreachableReasonInfo UnreachableReason { get; set; }
+
         [Newtonsoft.Json.JsonProperty("questName")]
         public string QuestName { get; set; }
+
+        /// <summary>
+        /// The status to show: Unreachable for locked quests that can never be started.
+        /// </summary>
+        public EQuestStatus DisplayStatus =>
+            Status == EQuestStatus.Locked && UnreachableReason != null ? EQuestStatus.Unreachable : Status;
+    }
+
+    /// <summary>
+    /// Why a quest can never be started (Faction, ExclusiveQuest or FailedPrerequisite).
+    /// </summary>
+    public class UnreachableReasonInfo
+    {
+        [Newtonsoft.Json.JsonProperty("type")]
+        public string Type { get; set; }
+
+        [Newtonsoft.Json.JsonProperty("message")]
+        public string Message { get; set; }
+    }
+
+    /// <summary>
+    /// One unmet start condition of a locked quest (prerequisite quest, level, trader loyalty/standing or timer).
+    /// </summary>
+    public class LockReasonInfo
+    {
+        [Newtonsoft.Json.JsonProperty("type")]
+        public string Type { get; set; }
+
+        [Newtonsoft.Json.JsonProperty("message")]
+        public string Message { get; set; }
     }
 
     [BepInPlugin("com.LunaStatusQuests.client", "LunaStatusQuests", "1.0.1")]
@@ -72,6 +113,7 @@ namespace LunaStatusQuests
 
                 _questService = new QuestService(_settingsService, LogSource);
                 ServiceContainer.Register<IQuestService>(_questService);
+                _settingsService.ShareMyQuestsChanged += _questService.UpdateSharing;
 
                 _uiService = new UiService(_questService, _settingsService, LogSource);
                 ServiceContainer.Register<IUiService>(_uiService);
@@ -100,6 +142,9 @@ namespace LunaStatusQuests
         {
             yield return new WaitForSeconds(3f);
 
+            // The server keeps the choice, but the config file is where the player made it
+            _questService.UpdateSharing(_settingsService.ShareMyQuests);
+
             if (_settingsService.Enabled)
             {
                 LogSource.LogInfo("[LunaStatusQuestsClient] Performing initial fetch...");
@@ -36,6 +36,11 @@ namespace LunaStatusQuests.Services
         /// <param name="force">If true, bypasses the update interval check in settings.</param>
         /// <returns>True if a fetch was initiated, false if skipped due to interval or logic.</returns>
         bool FetchQuestStatuses(bool force = false);
+
+        /// <summary>
+        /// Tells the server whether other players may see this profile's quest progress.
+        /// </summary>
+        void UpdateSharing(bool share);
     }
 
     /// <summary>
@@ -167,5 +172,38 @@ namespace LunaStatusQuests.Services
 
             return true;
         }
+
+        public void UpdateSharing(bool share)
+        {
+            _ = Task.Run(() =>
+            {
+                try
+                {
+                    var response = RequestHandler.PostJson(
+                        "/LunaStatusQuests/privacy",
+                        JsonConvert.SerializeObject(new { share })
+                    );
+
+                    if (!string.IsNullOrEmpty(response) && response.Contains("\"error\""))
+                    {
+                        _logger.LogWarning(
+                            $"[LunaStatusQuestsClient] Server rejected the sharing setting: {response}"
+                        );
+                    }
+                    else
+                    {
+                        _logger.LogInfo(
+                            $"[LunaStatusQuestsClient] Quest progress sharing {(share ? "enabled" : "disabled")}."
+                        );
+                    }
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(
+                        $"[LunaStatusQuestsClient] Could not update the sharing setting: {ex.Message}"
+                    );
+                }
+            });
+        }
     }
 }
@@ -16,6 +16,12 @@ namespace LunaStatusQuests.Services
         int UpdateIntervalSeconds { get; }
         bool ShowDebugLogs { get; }
         bool ShowInTrader { get; }
+        bool ShareMyQuests { get; }
+
+        /// <summary>
+        /// Raised when the player turns ShareMyQuests on or off.
+        /// </summary>
+        event Action<bool> ShareMyQuestsChanged;
 
         // Debug Menu Settings
         KeyCode ToggleKey { get; }
@@ -46,6 +52,7 @@ namespace LunaStatusQuests.Services
         private ConfigEntry<string> _visibleProfiles;
         private ConfigEntry<bool> _showDebugLogs;
         private ConfigEntry<bool> _showInTrader;
+        private ConfigEntry<bool> _shareMyQuests;
         private ConfigEntry<KeyCode> _toggleKey;
         private ConfigEntry<int> _menuWidth;
         private ConfigEntry<int> _menuHeight;
@@ -61,6 +68,9 @@ namespace LunaStatusQuests.Services
         public int UpdateIntervalSeconds => _updateIntervalSeconds.Value;
         public bool ShowDebugLogs => _showDebugLogs.Value;
         public bool ShowInTrader => _showInTrader.Value;
+        public bool ShareMyQuests => _shareMyQuests.Value;
+
+        public event Action<bool> ShareMyQuestsChanged;
         public KeyCode ToggleKey => _toggleKey.Value;
         public int MenuWidth => _menuWidth.Value;
         public int MenuHeight => _menuHeight.Value;
@@ -131,6 +141,16 @@ namespace LunaStatusQuests.Services
                     "Filter which profiles to display. Use '*' for all. \nExclude: '*,-BotName'. \nInclude only: 'Player1,Player2'."
                 )
             );
+
+            _shareMyQuests = config.Bind(
+                "Profiles",
+                "ShareMyQuests",
+                true,
+                new ConfigDescription(
+                    "Let other players on this server see your quest progress. When off, the server never sends your profile to anyone."
+                )
+            );
+            _shareMyQuests.SettingChanged += (sender, args) => ShareMyQuestsChanged?.Invoke(_shareMyQuests.Value);
         }
 
         public void UpdateProfileList(List<string> profileNames)
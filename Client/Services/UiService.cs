@@ -1,4 +1,5 @@
 using System.Collections.Generic;
+using System.Linq;
 using System.Text.RegularExpressions;
 using BepInEx.Logging;
 using LunaStatusQuests;
@@ -107,8 +108,17 @@ namespace LunaStatusQuests.Services
 
                 if (quests.TryGetValue(questId, out var statusInfo))
                 {
-                    status = statusInfo.Status;
-                    lockedReason = statusInfo.LockedReason;
+                    status = statusInfo.DisplayStatus;
+                    lockedReason = statusInfo.LockedReason ?? statusInfo.UnreachableReason?.Message;
+
+                    // Level, trader and timer locks have no prerequisite text, so show their messages instead.
+                    if (string.IsNullOrEmpty(lockedReason) && statusInfo.LockReasons?.Count > 0)
+                    {
+                        lockedReason = string.Join(
+                            ", ",
+                            statusInfo.LockReasons.Select(reason => reason.Message)
+                        );
+                    }
                 }
 
                 var statusName = GetStatusName(status);
@@ -131,6 +141,11 @@ namespace LunaStatusQuests.Services
                             $"<color={statusColor}>{statusName}</color> <color=#666666>({lockedReason})</color>";
                     }
                 }
+                else if (status == EQuestStatus.Unreachable && !string.IsNullOrEmpty(lockedReason))
+                {
+                    statusDisplay =
+                        $"<color={statusColor}>{statusName}</color> <color=#666666>({lockedReason})</color>";
+                }
                 else
                 {
                     statusDisplay = $"<color={statusColor}>{statusName}</color>";
@@ -197,6 +212,7 @@ namespace LunaStatusQuests.Services
                 EQuestStatus.Fail2 => "Failed",
                 EQuestStatus.Expired => "Expired",
                 EQuestStatus.TimeExpired => "Timed",
+                EQuestStatus.Unreachable => "Unreachable",
                 _ => "Unknown",
             };
         }
@@ -215,6 +231,7 @@ namespace LunaStatusQuests.Services
                 EQuestStatus.Fail2 => "#FF4444",
                 EQuestStatus.Expired => "#666666",
                 EQuestStatus.TimeExpired => "#87CEEB",
+                EQuestStatus.Unreachable => "#5C4033",
                 _ => "#FFFFFF",
             };
         }
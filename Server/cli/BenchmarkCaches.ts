@@ -0,0 +1,215 @@
+import "reflect-metadata";
+import "./sptModules";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { container } from "tsyringe";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import type { IQuestStatus } from "@spt/models/eft/common/tables/IBotBase";
+import type { ISptProfile } from "@spt/models/eft/profile/ISptProfile";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { LunaStatusQuestsService } from "../src/LunaStatusQuestsService";
+import { ModConfigService } from "../src/ModConfigService";
+import { QuestLocaleService } from "../src/QuestLocaleService";
+import { OfflineQuestHelper, registerOfflineServices } from "./OfflineAdapters";
+
+const usage = `Usage: npm run bench -- [options]
+
+Times the status computation on a generated quest database and generated profiles.
+
+Options:
+  --quests <count>     Quests in the generated database (default: 1000)
+  --profiles <count>   Generated profiles (default: 100)
+  --runs <count>       Runs averaged for every warm measurement (default: 10)`;
+
+/**
+ * Times LunaStatusQuestsService on a synthetic database of quest chains and profiles at random points of each chain,
+ * to compare cache changes before and after. Uses the same offline adapters as the CLI, so no server is needed.
+ */
+class BenchmarkCaches 
+{
+    private static readonly serverRoot = path.join(__dirname, "..", "..");
+    private static readonly chainCount = 50;
+    private static readonly traderCount = 8;
+
+    // Fixed seed, so every run measures the same data
+    private seed = 42;
+
+    public run(args: string[]): number 
+    {
+        const { values: options } = parseArgs({
+            args,
+            options: {
+                quests: { type: "string" },
+                profiles: { type: "string" },
+                runs: { type: "string" },
+                help: { type: "boolean" }
+            }
+        });
+
+        if (options.help) 
+        {
+            console.log(usage);
+            return 0;
+        }
+
+        const questCount = this.parseCount(options.quests, "--quests", 1000);
+        const profileCount = this.parseCount(options.profiles, "--profiles", 100);
+        const runs = this.parseCount(options.runs, "--runs", 10);
+
+        const quests = this.generateQuests(questCount);
+        const profiles = this.generateProfiles(profileCount, questCount);
+        const questNames = Object.fromEntries(quests.map((quest) => [`${quest._id} name`, quest.QuestName]));
+        registerOfflineServices(profiles, new OfflineQuestHelper(quests), { en: questNames }, "en");
+
+        container
+            .resolve<ModConfigService>("ModConfigService")
+            .load(path.join(BenchmarkCaches.serverRoot, "config", "config.jsonc"));
+        container
+            .resolve<QuestLocaleService>("QuestLocaleService")
+            .loadTranslations(path.join(BenchmarkCaches.serverRoot, "locales"));
+        const service = container.resolve<LunaStatusQuestsService>("LunaStatusQuestsService");
+
+        console.log(`${questCount} quests, ${profileCount} profiles, warm timings averaged over ${runs} runs`);
+        this.time("first request (cold)", 1, () => service.refreshSnapshot());
+        this.time("request, nothing changed", runs, () => service.refreshSnapshot());
+        this.time("request, one profile changed", runs, (run) => 
+        {
+            const pmcData = Object.values(profiles)[run % profileCount].characters.pmc;
+            const open = pmcData.Quests.find((quest) => quest.status !== QuestStatus.Success);
+            if (open) 
+            {
+                open.status = QuestStatus.Success;
+            }
+
+            service.refreshSnapshot();
+        });
+        this.time("prepareCaches, same quest objects", runs, () => service.prepareCaches());
+        this.time("prepareCaches, quests reloaded", runs, () => 
+        {
+            // Same content in new objects, like a database reload: hashed again, but not rebuilt
+            quests.forEach((quest, index) => (quests[index] = { ...quest }));
+            service.prepareCaches();
+        });
+
+        return 0;
+    }
+
+    /**
+     * Chains of quests per trader, each quest needing the previous one of its chain, a rising level and now and
+     * then a quest from another chain.
+     */
+    private generateQuests(count: number): IQuest[] 
+    {
+        const chainCount = BenchmarkCaches.chainCount;
+        const quests: IQuest[] = [];
+
+        for (let index = 0; index < count; index++) 
+        {
+            const step = Math.floor(index / chainCount);
+            const startConditions: unknown[] = [{ conditionType: "Level", compareMethod: ">=", value: step * 2 }];
+            if (step > 0) 
+            {
+                startConditions.push({ conditionType: "Quest", target: [`q${index - chainCount}`], status: [4] });
+            }
+
+            if (step > 1 && this.random() < 0.3) 
+            {
+                const target = `q${Math.floor(this.random() * (index - chainCount))}`;
+                startConditions.push({ conditionType: "Quest", target, status: [4] });
+            }
+
+            quests.push({
+                _id: `q${index}`,
+                QuestName: `Quest ${index}`,
+                traderId: `trader${(index % chainCount) % BenchmarkCaches.traderCount}`,
+                conditions: { AvailableForStart: startConditions, AvailableForFinish: [], Fail: [] }
+            } as unknown as IQuest);
+        }
+
+        return quests;
+    }
+
+    /**
+     * Profiles that finished a random part of every chain and have the next quest of the chain started or available.
+     */
+    private generateProfiles(count: number, questCount: number): Record<string, ISptProfile> 
+    {
+        const chainCount = BenchmarkCaches.chainCount;
+        const chainLength = Math.ceil(questCount / chainCount);
+        const profiles: Record<string, ISptProfile> = {};
+
+        for (let profile = 0; profile < count; profile++) 
+        {
+            const questStates: Partial<IQuestStatus>[] = [];
+            for (let chain = 0; chain < chainCount; chain++) 
+            {
+                const completed = Math.floor(this.random() * chainLength);
+                for (let step = 0; step <= completed; step++) 
+                {
+                    const questIndex = step * chainCount + chain;
+                    if (questIndex >= questCount) 
+                    {
+                        break;
+                    }
+
+                    const open = this.random() < 0.5 ? QuestStatus.Started : QuestStatus.AvailableForStart;
+                    questStates.push({ qid: `q${questIndex}`, status: step < completed ? QuestStatus.Success : open });
+                }
+            }
+
+            const profileId = `profile${profile}`;
+            profiles[profileId] = {
+                info: { id: profileId },
+                characters: {
+                    pmc: {
+                        _id: profileId,
+                        Info: { Nickname: `Player${profile}`, Level: 1 + Math.floor(this.random() * 40) },
+                        TradersInfo: {},
+                        Quests: questStates
+                    }
+                }
+            } as unknown as ISptProfile;
+        }
+
+        return profiles;
+    }
+
+    private time(label: string, runs: number, action: (run: number) => void): void 
+    {
+        const started = performance.now();
+        for (let run = 0; run < runs; run++) 
+        {
+            action(run);
+        }
+
+        const average = (performance.now() - started) / runs;
+        console.log(`${label.padEnd(36)} ${average.toFixed(2).padStart(10)} ms`);
+    }
+
+    private parseCount(value: string | undefined, option: string, fallback: number): number 
+    {
+        const count = value === undefined ? fallback : Number(value);
+        if (!Number.isInteger(count) || count < 1) 
+        {
+            throw new Error(`${option} must be a positive whole number: ${value}`);
+        }
+
+        return count;
+    }
+
+    private random(): number 
+    {
+        this.seed = (this.seed * 1103515245 + 12345) % 2147483648;
+        return this.seed / 2147483648;
+    }
+}
+
+try 
+{
+    process.exitCode = new BenchmarkCaches().run(process.argv.slice(2));
+}
+catch (error) 
+{
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,373 @@
+import "reflect-metadata";
+import "./sptModules";
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { container } from "tsyringe";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type { QuestStatusInfo, QuestStatusResponse } from "../src/models/QuestStatusModels";
+import { LunaStatusQuestsService } from "../src/LunaStatusQuestsService";
+import { ModConfigService } from "../src/ModConfigService";
+import { QuestLocaleService } from "../src/QuestLocaleService";
+import {
+    OfflineQuestHelper,
+    readJson,
+    readLocales,
+    readProfiles,
+    readQuests,
+    registerOfflineServices
+} from "./OfflineAdapters";
+
+type CliOptions = ReturnType<typeof parseCliArgs>["values"];
+
+interface StatusDiff 
+{
+    playerName: string;
+    questId?: string;
+    questName?: string;
+    previous?: QuestStatusInfo;
+    current?: QuestStatusInfo;
+}
+
+const usage = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  matrix                            Status of every quest for every profile
+  quest <questId|name>              Status and lock reasons of one quest for every profile
+  diff <before.json> [after.json]   Changes between two runs saved with --out (or responses of the
+                                    /LunaStatusQuests route); without after.json, against a new run
+
+Options:
+  --profiles <file|dir>   SPT profiles (user/profiles) or PMC data, repeatable
+  --quests <file>         quests.json from database/templates
+  --locales <file|dir>    Global locale files from database/locales/global, repeatable
+  --locale <code>         Language of quest names and lock reasons (default: en)
+  --config <file>         Mod config to apply (default: config/config.jsonc)
+  --out <file>            Also save the computed run, for a later diff
+  --json                  Print JSON instead of text
+  --verbose               Print debug logging to stderr`;
+
+/**
+ * Computes quest statuses outside of SPT, from exported profile, quest and locale files, with the same
+ * LunaStatusQuestsService the server runs. SPT's helpers are replaced by the adapters in OfflineAdapters.
+ */
+class LunaStatusQuestsCli 
+{
+    private static readonly serverRoot = path.join(__dirname, "..", "..");
+
+    public run(args: string[]): number 
+    {
+        const { values: options, positionals } = parseCliArgs(args);
+        const [command, ...operands] = positionals;
+
+        switch (command) 
+        {
+            case "matrix":
+                this.printMatrix(this.compute(options), options);
+                return 0;
+            case "quest":
+                if (operands.length !== 1) 
+                {
+                    break;
+                }
+
+                return this.printQuest(operands[0], this.compute(options), options);
+            case "diff":
+                if (operands.length < 1 || operands.length > 2) 
+                {
+                    break;
+                }
+
+                this.printDiff(
+                    this.readRun(operands[0]),
+                    operands[1] ? this.readRun(operands[1]) : this.compute(options),
+                    options
+                );
+                return 0;
+        }
+
+        console.error(usage);
+        return 1;
+    }
+
+    private compute(options: CliOptions): QuestStatusResponse 
+    {
+        if (!options.profiles || !options.quests) 
+        {
+            throw new Error("--profiles and --quests are required to compute statuses");
+        }
+
+        const locale = options.locale ?? "en";
+        const serverRoot = LunaStatusQuestsCli.serverRoot;
+
+        registerOfflineServices(
+            readProfiles(options.profiles),
+            new OfflineQuestHelper(readQuests(options.quests)),
+            readLocales(options.locales ?? []),
+            locale
+        );
+
+        const configService = container.resolve<ModConfigService>("ModConfigService");
+        configService.load(options.config ?? path.join(serverRoot, "config", "config.jsonc"));
+        if (options.verbose) 
+        {
+            configService.getConfig().logLevel = "debug";
+        }
+
+        const questLocaleService = container.resolve<QuestLocaleService>("QuestLocaleService");
+        questLocaleService.loadTranslations(path.join(serverRoot, "locales"));
+
+        const questStatusService = container.resolve<LunaStatusQuestsService>("LunaStatusQuestsService");
+        questStatusService.prepareCaches();
+        // Same shape as the /LunaStatusQuests route, so runs and saved responses can be diffed against each other
+        const statuses = questStatusService.toSchemaV1(
+            questStatusService.getQuestStatuses(undefined, questLocaleService.getDefaultLocale())
+        );
+
+        if (options.out) 
+        {
+            fs.writeFileSync(options.out, JSON.stringify(statuses, null, 4), "utf-8");
+        }
+
+        return statuses;
+    }
+
+    private printMatrix(statuses: QuestStatusResponse, options: CliOptions): void 
+    {
+        if (options.json) 
+        {
+            console.log(JSON.stringify(statuses, null, 4));
+            return;
+        }
+
+        const players = Object.keys(statuses);
+        const questIds = [...new Set(players.flatMap((playerName) => Object.keys(statuses[playerName])))];
+        const rows = questIds.map((questId) => [
+            this.getQuestName(statuses, questId),
+            ...players.map((playerName) => this.getStatusName(statuses[playerName][questId]))
+        ]);
+
+        this.printTable(["Quest", ...players], rows);
+    }
+
+    private printQuest(query: string, statuses: QuestStatusResponse, options: CliOptions): number 
+    {
+        const questId = this.findQuestId(statuses, query);
+        if (!questId) 
+        {
+            console.error(`Unknown quest: ${query}`);
+            return 1;
+        }
+
+        const profiles: Record<string, QuestStatusInfo> = {};
+        for (const [playerName, quests] of Object.entries(statuses)) 
+        {
+            profiles[playerName] = quests[questId];
+        }
+
+        if (options.json) 
+        {
+            console.log(JSON.stringify({ questId, questName: this.getQuestName(statuses, questId), profiles }, null, 4));
+            return 0;
+        }
+
+        console.log(`${this.getQuestName(statuses, questId)} (${questId})`);
+        for (const [playerName, info] of Object.entries(profiles)) 
+        {
+            console.log(`  ${playerName}: ${this.getStatusName(info)}`);
+            for (const reason of this.getReasons(info)) 
+            {
+                console.log(`    ${reason}`);
+            }
+        }
+
+        return 0;
+    }
+
+    private printDiff(before: QuestStatusResponse, after: QuestStatusResponse, options: CliOptions): void 
+    {
+        const diffs: StatusDiff[] = [];
+
+        for (const playerName of new Set([...Object.keys(before), ...Object.keys(after)])) 
+        {
+            const previousQuests = before[playerName];
+            const currentQuests = after[playerName];
+            if (!previousQuests || !currentQuests) 
+            {
+                diffs.push({ playerName });
+                continue;
+            }
+
+            for (const questId of new Set([...Object.keys(previousQuests), ...Object.keys(currentQuests)])) 
+            {
+                const previous = previousQuests[questId];
+                const current = currentQuests[questId];
+                if (JSON.stringify(previous) !== JSON.stringify(current)) 
+                {
+                    const questName = current?.questName ?? previous?.questName ?? questId;
+                    diffs.push({ playerName, questId, questName, previous, current });
+                }
+            }
+        }
+
+        if (options.json) 
+        {
+            console.log(JSON.stringify(diffs, null, 4));
+            return;
+        }
+
+        if (diffs.length === 0) 
+        {
+            console.log("No differences");
+            return;
+        }
+
+        for (const diff of diffs) 
+        {
+            if (!diff.questId) 
+            {
+                console.log(`${diff.playerName}: profile ${before[diff.playerName] ? "removed" : "added"}`);
+                continue;
+            }
+
+            const change = `${this.getStatusName(diff.previous)} -> ${this.getStatusName(diff.current)}`;
+            console.log(`${diff.playerName}: ${diff.questName} (${diff.questId}): ${change}`);
+
+            const previousReasons = this.getReasons(diff.previous);
+            const currentReasons = this.getReasons(diff.current);
+            for (const reason of previousReasons.filter((entry) => !currentReasons.includes(entry))) 
+            {
+                console.log(`    - ${reason}`);
+            }
+
+            for (const reason of currentReasons.filter((entry) => !previousReasons.includes(entry))) 
+            {
+                console.log(`    + ${reason}`);
+            }
+        }
+    }
+
+    private readRun(file: string): QuestStatusResponse 
+    {
+        const run = readJson(file);
+        if (typeof run !== "object" || run === null || Array.isArray(run) || "error" in run) 
+        {
+            throw new Error(`${file} is not a quest status run`);
+        }
+
+        return run;
+    }
+
+    /**
+     * Matches a quest ID first, then a quest name in any case.
+     */
+    private findQuestId(statuses: QuestStatusResponse, query: string): string | undefined 
+    {
+        const quests = Object.values(statuses);
+        if (quests.some((questStatuses) => query in questStatuses)) 
+        {
+            return query;
+        }
+
+        const name = query.toLowerCase();
+        for (const questStatuses of quests) 
+        {
+            const match = Object.keys(questStatuses).find(
+                (questId) => questStatuses[questId].questName?.toLowerCase() === name
+            );
+            if (match) 
+            {
+                return match;
+            }
+        }
+
+        return undefined;
+    }
+
+    private getQuestName(statuses: QuestStatusResponse, questId: string): string 
+    {
+        const quests = Object.values(statuses);
+        return quests.find((questStatuses) => questStatuses[questId]?.questName)?.[questId].questName ?? questId;
+    }
+
+    private getStatusName(info: QuestStatusInfo | undefined): string 
+    {
+        if (!info) 
+        {
+            return "-";
+        }
+
+        // Version 1 responses report unreachable quests as Locked with their reason
+        if (info.unreachableReason) 
+        {
+            return "Unreachable";
+        }
+
+        return QuestStatus[info.status] ?? `${info.status}`;
+    }
+
+    /**
+     * One line per unmet start condition, falling back to the combined reason of responses without lockReasons.
+     */
+    private getReasons(info: QuestStatusInfo | undefined): string[] 
+    {
+        if (info?.unreachableReason) 
+        {
+            return [info.unreachableReason.message];
+        }
+
+        if (info?.lockReasons?.length) 
+        {
+            return info.lockReasons.map((reason) => reason.message);
+        }
+
+        return info?.lockedReason ? [info.lockedReason] : [];
+    }
+
+    private printTable(header: string[], rows: string[][]): void 
+    {
+        const widths = header.map((title, column) =>
+            Math.max(title.length, ...rows.map((row) => row[column].length))
+        );
+        const format = (row: string[]): string =>
+            row
+                .map((cell, column) => cell.padEnd(widths[column]))
+                .join("  ")
+                .trimEnd();
+
+        console.log(format(header));
+        console.log(format(widths.map((width) => "-".repeat(width))));
+        for (const row of rows) 
+        {
+            console.log(format(row));
+        }
+    }
+}
+
+function parseCliArgs(args: string[]) 
+{
+    return parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            profiles: { type: "string", multiple: true },
+            quests: { type: "string" },
+            locales: { type: "string", multiple: true },
+            locale: { type: "string" },
+            config: { type: "string" },
+            out: { type: "string" },
+            json: { type: "boolean" },
+            verbose: { type: "boolean" }
+        }
+    });
+}
+
+try 
+{
+    process.exitCode = new LunaStatusQuestsCli().run(process.argv.slice(2));
+}
+catch (error) 
+{
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,218 @@
+import fs from "node:fs";
+import path from "node:path";
+import { container, Lifecycle } from "tsyringe";
+import type { IPmcData } from "@spt/models/eft/common/IPmcData";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import type { ISptProfile } from "@spt/models/eft/profile/ISptProfile";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { LunaStatusQuestsLogger } from "../src/LunaStatusQuestsLogger";
+import { LunaStatusQuestsService } from "../src/LunaStatusQuestsService";
+import { ModConfigService } from "../src/ModConfigService";
+import { QuestLocaleService } from "../src/QuestLocaleService";
+import { QuestPrivacyService } from "../src/QuestPrivacyService";
+import { QuestStatusSnapshotService } from "../src/QuestStatusSnapshotService";
+
+/**
+ * The parts of SPT's ProfileHelper the services use, backed by profile files.
+ */
+export class OfflineProfileHelper 
+{
+    constructor(private profiles: Record<string, ISptProfile>) 
+    {}
+
+    public getProfiles(): Record<string, ISptProfile> 
+    {
+        return this.profiles;
+    }
+}
+
+/**
+ * The parts of SPT's QuestHelper the services use, backed by a quests.json dump.
+ */
+export class OfflineQuestHelper 
+{
+    constructor(private quests: IQuest[]) 
+    {}
+
+    public getQuestsFromDb(): IQuest[] 
+    {
+        return this.quests;
+    }
+
+    public getQuestStatus(pmcData: IPmcData, questId: string): QuestStatus 
+    {
+        return pmcData.Quests?.find((quest) => quest.qid === questId)?.status ?? QuestStatus.Locked;
+    }
+}
+
+/**
+ * The parts of SPT's DatabaseService the services use. Maps are not part of the dumps, so no locations are known.
+ */
+export class OfflineDatabaseService 
+{
+    constructor(private locales: Record<string, Record<string, string>>) 
+    {}
+
+    public getLocales(): { global: Record<string, Record<string, string>> } 
+    {
+        return { global: this.locales };
+    }
+
+    public getLocations(): Record<string, unknown> 
+    {
+        return {};
+    }
+}
+
+export class OfflineLocaleService 
+{
+    constructor(private locale: string) 
+    {}
+
+    public getDesiredGameLocale(): string 
+    {
+        return this.locale;
+    }
+}
+
+/**
+ * Stands in for SPT's WinstonLogger. Writes to stderr, so the output on stdout can be redirected to a file.
+ */
+export class ConsoleLogger 
+{
+    public error(message: string): void 
+    {
+        console.error(`error: ${message}`);
+    }
+
+    public warning(message: string): void 
+    {
+        console.error(`warning: ${message}`);
+    }
+
+    public info(message: string): void 
+    {
+        console.error(message);
+    }
+
+    public success(message: string): void 
+    {
+        console.error(message);
+    }
+
+    public debug(message: string): void 
+    {
+        console.error(`debug: ${message}`);
+    }
+}
+
+/**
+ * Registers the adapters above in place of SPT's services, and the mod services LunaStatusQuestsService needs,
+ * the way preSptLoad does inside the server.
+ */
+export function registerOfflineServices(
+    profiles: Record<string, ISptProfile>,
+    questHelper: OfflineQuestHelper,
+    locales: Record<string, Record<string, string>>,
+    locale: string
+): void 
+{
+    container.register("WinstonLogger", { useValue: new ConsoleLogger() });
+    container.register("ProfileHelper", { useValue: new OfflineProfileHelper(profiles) });
+    container.register("QuestHelper", { useValue: questHelper });
+    container.register("DatabaseService", { useValue: new OfflineDatabaseService(locales) });
+    container.register("LocaleService", { useValue: new OfflineLocaleService(locale) });
+
+    container.register("ModConfigService", { useClass: ModConfigService }, { lifecycle: Lifecycle.Singleton });
+    container.register(
+        "LunaStatusQuestsLogger",
+        { useClass: LunaStatusQuestsLogger },
+        { lifecycle: Lifecycle.Singleton }
+    );
+    container.register("QuestLocaleService", { useClass: QuestLocaleService }, { lifecycle: Lifecycle.Singleton });
+    container.register("QuestPrivacyService", { useClass: QuestPrivacyService }, { lifecycle: Lifecycle.Singleton });
+    container.register(
+        "QuestStatusSnapshotService",
+        { useClass: QuestStatusSnapshotService },
+        { lifecycle: Lifecycle.Singleton }
+    );
+    container.register(
+        "LunaStatusQuestsService",
+        { useClass: LunaStatusQuestsService },
+        { lifecycle: Lifecycle.Singleton }
+    );
+}
+
+/**
+ * Reads profiles from files or directories of files. Accepts full SPT profiles (user/profiles/*.json)
+ * as well as bare PMC data, keyed by profile ID like ProfileHelper does.
+ */
+export function readProfiles(paths: string[]): Record<string, ISptProfile> 
+{
+    const profiles: Record<string, ISptProfile> = {};
+
+    for (const file of listJsonFiles(paths)) 
+    {
+        const data = readJson(file);
+        const pmc: IPmcData | undefined = data?.characters ? data.characters.pmc : data?.Info ? data : undefined;
+        if (!pmc) 
+        {
+            throw new Error(`${file} is neither an SPT profile nor PMC data`);
+        }
+
+        const profileId: string = data.info?.id ?? pmc._id ?? path.basename(file, ".json");
+        profiles[profileId] = data.characters ? data : ({ info: { id: profileId }, characters: { pmc } } as ISptProfile);
+    }
+
+    return profiles;
+}
+
+/**
+ * Reads quests.json as found in database/templates (keyed by quest ID) or as an array of quests.
+ */
+export function readQuests(file: string): IQuest[] 
+{
+    const data = readJson(file);
+    const quests: unknown[] = Array.isArray(data) ? data : Object.values(data ?? {});
+    return quests.filter((quest): quest is IQuest => typeof (quest as IQuest)?._id === "string");
+}
+
+/**
+ * Reads global locale files (database/locales/global), each named after its locale, e.g. en.json.
+ */
+export function readLocales(paths: string[]): Record<string, Record<string, string>> 
+{
+    const locales: Record<string, Record<string, string>> = {};
+
+    for (const file of listJsonFiles(paths)) 
+    {
+        locales[path.basename(file, ".json")] = readJson(file);
+    }
+
+    return locales;
+}
+
+export function readJson(file: string): any 
+{
+    try 
+    {
+        return JSON.parse(fs.readFileSync(file, "utf-8"));
+    }
+    catch (error) 
+    {
+        throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+function listJsonFiles(paths: string[]): string[] 
+{
+    return paths.flatMap((entry) =>
+        fs.statSync(entry).isDirectory()
+            ? fs
+                .readdirSync(entry)
+                .filter((file) => file.endsWith(".json"))
+                .sort()
+                .map((file) => path.join(entry, file))
+            : [entry]
+    );
+}
@@ -0,0 +1,152 @@
+import { parseArgs } from "node:util";
+import { WebSocket } from "ws";
+import type { QuestStatusEventMessage, QuestStatusSubscribeMessage } from "../src/models/QuestStatusModels";
+
+const usage = `Usage: npm run events -- [options]
+
+Connects to the /LunaStatusQuests/ws push channel of a running server and prints every event it receives.
+
+Options:
+  --url <url>            WebSocket URL (default: ws://127.0.0.1:6969/LunaStatusQuests/ws)
+  --session <profileId>  Connect as this profile, needed when privacy.friendsOnly is on
+  --profiles <name>      Only subscribe to this profile's events, repeatable
+  --quests <questId>     Only subscribe to this quest's events, repeatable
+  --expect <event>       Exit with 0 once an event of this type arrived (Started, AvailableForFinish, Success, Fail,
+                         Unlocked), repeatable; every listed type has to arrive
+  --timeout <seconds>    Exit with 1 if the expected events did not arrive in time (default: 300 with --expect)
+  --json                 Print the raw messages`;
+
+/**
+ * Small WebSocket client for checking the push channel by hand or from a script: subscribe, then change a quest in
+ * game (or edit a profile and wait for the next refresh) and see the event arrive.
+ */
+class QuestEventsClient 
+{
+    private static readonly defaultUrl = "ws://127.0.0.1:6969/LunaStatusQuests/ws";
+    private static readonly defaultTimeoutSeconds = 300;
+
+    public run(args: string[]): Promise<number> 
+    {
+        const { values: options } = parseArgs({
+            args,
+            options: {
+                url: { type: "string" },
+                session: { type: "string" },
+                profiles: { type: "string", multiple: true },
+                quests: { type: "string", multiple: true },
+                expect: { type: "string", multiple: true },
+                timeout: { type: "string" },
+                json: { type: "boolean" },
+                help: { type: "boolean" }
+            }
+        });
+
+        if (options.help) 
+        {
+            console.log(usage);
+            return Promise.resolve(0);
+        }
+
+        const url = new URL(options.url ?? QuestEventsClient.defaultUrl);
+        if (options.session) 
+        {
+            url.searchParams.set("sessionId", options.session);
+        }
+
+        const expected = new Set(options.expect ?? []);
+        const timeoutSeconds = Number(
+            options.timeout ?? (expected.size > 0 ? QuestEventsClient.defaultTimeoutSeconds : 0)
+        );
+        if (!Number.isFinite(timeoutSeconds) || timeoutSeconds < 0) 
+        {
+            throw new Error(`--timeout must be a number of seconds: ${options.timeout}`);
+        }
+
+        return new Promise((resolve) => 
+        {
+            const ws = new WebSocket(url);
+            const finish = (code: number): void => 
+            {
+                clearTimeout(timer);
+                ws.close();
+                resolve(code);
+            };
+            const timer =
+                timeoutSeconds > 0
+                    ? setTimeout(() => 
+                    {
+                        console.error(`Timed out waiting for: ${[...expected].join(", ")}`);
+                        finish(1);
+                    }, timeoutSeconds * 1000)
+                    : undefined;
+
+            ws.on("open", () => 
+            {
+                console.error(`Connected to ${url.origin}${url.pathname}`);
+                const subscribe: QuestStatusSubscribeMessage = {
+                    type: "subscribe",
+                    profiles: options.profiles,
+                    questIds: options.quests
+                };
+                ws.send(JSON.stringify(subscribe));
+            });
+
+            ws.on("message", (data) => 
+            {
+                const message: unknown = JSON.parse(data.toString());
+                console.log(options.json ? JSON.stringify(message) : this.format(message));
+
+                if (this.isEvent(message)) 
+                {
+                    expected.delete(message.event);
+                    if (options.expect && expected.size === 0) 
+                    {
+                        finish(0);
+                    }
+                }
+            });
+
+            ws.on("error", (error) => 
+            {
+                console.error(`WebSocket error: ${error.message}`);
+                finish(1);
+            });
+
+            ws.on("close", () => finish(expected.size === 0 && options.expect ? 0 : 1));
+        });
+    }
+
+    private format(message: unknown): string 
+    {
+        if (!this.isEvent(message)) 
+        {
+            return JSON.stringify(message);
+        }
+
+        const time = new Date(message.timestamp).toLocaleTimeString();
+        const quest = `${message.questName ?? message.questId} (${message.questId})`;
+        return `${time} ${message.event}: ${message.playerName} - ${quest}`;
+    }
+
+    /**
+     * Status change events; the server also sends errors, e.g. for an invalid subscribe message.
+     */
+    private isEvent(message: unknown): message is QuestStatusEventMessage 
+    {
+        return (
+            typeof message === "object" && message !== null && "type" in message && message.type === "questStatusChanged"
+        );
+    }
+}
+
+new QuestEventsClient()
+    .run(process.argv.slice(2))
+    .then((code) => 
+    {
+        process.exitCode = code;
+    })
+    .catch((error) => 
+    {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    });
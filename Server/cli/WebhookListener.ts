@@ -0,0 +1,126 @@
+import http from "node:http";
+import { parseArgs } from "node:util";
+
+const usage = `Usage: npm run webhooks -- [options]
+
+Local HTTP listener to point webhook targets at. Prints every request body it receives and answers 204.
+
+Options:
+  --port <port>      Port to listen on (default: 8080)
+  --fail <count>     Answer the first <count> requests with --status instead, to watch the retries (default: 0)
+  --status <code>    Status code of the failed answers (default: 500); 429 also sends Retry-After: 1
+  --count <count>    Exit once <count> requests were accepted`;
+
+/**
+ * Receives webhook deliveries on this machine, so targets can be tested without Discord or another service.
+ * Add { "url": "http://127.0.0.1:8080/quests" } to webhooks.targets and call /LunaStatusQuests/admin/webhooks/test.
+ */
+class WebhookListener 
+{
+    private static readonly defaultPort = 8080;
+    private static readonly defaultFailStatus = 500;
+
+    private received = 0;
+    private accepted = 0;
+
+    public run(args: string[]): number 
+    {
+        const { values: options } = parseArgs({
+            args,
+            options: {
+                port: { type: "string" },
+                fail: { type: "string" },
+                status: { type: "string" },
+                count: { type: "string" },
+                help: { type: "boolean" }
+            }
+        });
+
+        if (options.help) 
+        {
+            console.log(usage);
+            return 0;
+        }
+
+        const port = this.parseNumber(options.port, "--port", WebhookListener.defaultPort);
+        const failCount = this.parseNumber(options.fail, "--fail", 0);
+        const failStatus = this.parseNumber(options.status, "--status", WebhookListener.defaultFailStatus);
+        const exitAfter = this.parseNumber(options.count, "--count", 0);
+
+        const server = http.createServer((request, response) => 
+        {
+            const chunks: Buffer[] = [];
+            request.on("data", (chunk: Buffer) => chunks.push(chunk));
+            request.on("end", () => 
+            {
+                const attempt = ++this.received;
+                const time = new Date().toLocaleTimeString();
+                console.log(`${time} #${attempt} ${request.method} ${request.url}`);
+                console.log(this.formatBody(Buffer.concat(chunks).toString("utf-8")));
+
+                if (attempt <= failCount) 
+                {
+                    console.log(`-> ${failStatus} (${failCount - attempt} more to fail)`);
+                    if (failStatus === 429) 
+                    {
+                        response.setHeader("Retry-After", "1");
+                    }
+
+                    response.writeHead(failStatus);
+                    response.end();
+                    return;
+                }
+
+                console.log("-> 204");
+                response.writeHead(204);
+                response.end();
+
+                if (exitAfter > 0 && ++this.accepted >= exitAfter) 
+                {
+                    server.close();
+                }
+            });
+        });
+
+        server.on("error", (error) => 
+        {
+            console.error(`Listener error: ${error.message}`);
+            process.exitCode = 1;
+        });
+        server.listen(port, () => console.error(`Listening on http://127.0.0.1:${port}/`));
+        return 0;
+    }
+
+    private formatBody(body: string): string 
+    {
+        try 
+        {
+            return JSON.stringify(JSON.parse(body), null, 4);
+        }
+        catch 
+        {
+            return body;
+        }
+    }
+
+    private parseNumber(value: string | undefined, option: string, fallback: number): number 
+    {
+        const number = value === undefined ? fallback : Number(value);
+        if (!Number.isInteger(number) || number < 0) 
+        {
+            throw new Error(`${option} must be a whole number: ${value}`);
+        }
+
+        return number;
+    }
+}
+
+try 
+{
+    process.exitCode = new WebhookListener().run(process.argv.slice(2));
+}
+catch (error) 
+{
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,24 @@
+/**
+ * Values of SPT's QuestStatus enum, which the CLI cannot load outside the server. Only used at runtime: the code
+ * is type-checked against SPT's own declaration, so this only has to look like the compiled enum, which maps names
+ * to values and values back to names.
+ */
+const questStatusValues = {
+    Locked: 0,
+    AvailableForStart: 1,
+    Started: 2,
+    AvailableForFinish: 3,
+    Success: 4,
+    Fail: 5,
+    FailRestartable: 6,
+    MarkedAsFailed: 7,
+    Expired: 8,
+    AvailableAfter: 9
+};
+
+const questStatus = {
+    ...questStatusValues,
+    ...Object.fromEntries(Object.entries(questStatusValues).map(([name, value]) => [value, name]))
+};
+
+export { questStatus as QuestStatus };
@@ -0,0 +1,2 @@
+// Stands in for SPT modules whose exports the services only use as types, e.g. in decorator metadata
+export {};
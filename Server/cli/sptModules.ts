@@ -0,0 +1,24 @@
+import fs from "node:fs";
+import module from "node:module";
+import path from "node:path";
+
+type ResolveFilename = (this: unknown, request: string, ...rest: unknown[]) => string;
+
+/**
+ * The services import a few values from "@spt/...", which only resolves inside the server. Outside of it, modules
+ * copied to ./spt are used instead and every other SPT import resolves to an empty module.
+ * Imported for its side effect, before any service.
+ */
+const moduleLoader = module as unknown as { _resolveFilename: ResolveFilename };
+const resolveFilename = moduleLoader._resolveFilename;
+
+moduleLoader._resolveFilename = function (request, ...rest) 
+{
+    if (!request.startsWith("@spt/")) 
+    {
+        return resolveFilename.call(this, request, ...rest);
+    }
+
+    const local = path.join(__dirname, "spt", `${path.basename(request)}.js`);
+    return fs.existsSync(local) ? local : path.join(__dirname, "spt", "empty.js");
+};
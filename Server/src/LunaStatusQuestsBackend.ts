@@ -1,8 +1,29 @@
-import { DependencyContainer } from "tsyringe";
+import { DependencyContainer, Lifecycle } from "tsyringe";
+import type { RouteAction } from "@spt/di/Router";
+import type { IPostSptLoadMod } from "@spt/models/external/IPostSptLoadMod";
 import type { IPreSptLoadMod } from "@spt/models/external/IPreSptLoadMod";
 import type { ILogger } from "@spt/models/spt/utils/ILogger";
 import type { StaticRouterModService } from "@spt/services/mod/staticRouter/StaticRouterModService";
+import type { DynamicRouterModService } from "@spt/services/mod/dynamicRouter/DynamicRouterModService";
 import { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import { QuestStatusSnapshotService } from "./QuestStatusSnapshotService";
+import { QuestStatusPushService } from "./QuestStatusPushService";
+import { QuestObjectiveService } from "./QuestObjectiveService";
+import { ModConfigService } from "./ModConfigService";
+import { QuestGraphService } from "./QuestGraphService";
+import { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import { QuestLocaleService } from "./QuestLocaleService";
+import { QuestSquadPlannerService } from "./QuestSquadPlannerService";
+import { QuestRaidPlannerService } from "./QuestRaidPlannerService";
+import { QuestHistoryService } from "./QuestHistoryService";
+import { QuestSummaryService } from "./QuestSummaryService";
+import { QuestItemListService } from "./QuestItemListService";
+import { QuestRecommendationService } from "./QuestRecommendationService";
+import { QuestPrivacyService } from "./QuestPrivacyService";
+import { QuestWebhookService } from "./QuestWebhookService";
+import { QuestDiagnosticsService } from "./QuestDiagnosticsService";
+import { QuestRepeatableService } from "./QuestRepeatableService";
+import { QuestComparisonService } from "./QuestComparisonService";
 
 /**
  * LunaStatusQuests Backend for SPT 3.11
@@ -10,34 +31,398 @@ import { LunaStatusQuestsService } from "./LunaStatusQuestsService";
  *
  * Refactored to use Dependency Injection pattern.
  */
-export class LunaStatusQuestsBackend implements IPreSptLoadMod 
+export class LunaStatusQuestsBackend implements IPreSptLoadMod, IPostSptLoadMod 
 {
     public async preSptLoad(container: DependencyContainer): Promise<void> 
     {
         const logger = container.resolve<ILogger>("WinstonLogger");
         const staticRouterModService = container.resolve<StaticRouterModService>("StaticRouterModService");
+        const dynamicRouterModService = container.resolve<DynamicRouterModService>("DynamicRouterModService");
 
-        container.register<LunaStatusQuestsService>("LunaStatusQuestsService", { useClass: LunaStatusQuestsService });
+        container.register<ModConfigService>(
+            "ModConfigService",
+            { useClass: ModConfigService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<LunaStatusQuestsLogger>(
+            "LunaStatusQuestsLogger",
+            { useClass: LunaStatusQuestsLogger },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestLocaleService>(
+            "QuestLocaleService",
+            { useClass: QuestLocaleService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestPrivacyService>(
+            "QuestPrivacyService",
+            { useClass: QuestPrivacyService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestStatusSnapshotService>(
+            "QuestStatusSnapshotService",
+            { useClass: QuestStatusSnapshotService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<LunaStatusQuestsService>(
+            "LunaStatusQuestsService",
+            { useClass: LunaStatusQuestsService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestStatusPushService>(
+            "QuestStatusPushService",
+            { useClass: QuestStatusPushService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestObjectiveService>(
+            "QuestObjectiveService",
+            { useClass: QuestObjectiveService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestGraphService>(
+            "QuestGraphService",
+            { useClass: QuestGraphService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestSquadPlannerService>(
+            "QuestSquadPlannerService",
+            { useClass: QuestSquadPlannerService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestRaidPlannerService>(
+            "QuestRaidPlannerService",
+            { useClass: QuestRaidPlannerService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestHistoryService>(
+            "QuestHistoryService",
+            { useClass: QuestHistoryService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestSummaryService>(
+            "QuestSummaryService",
+            { useClass: QuestSummaryService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestItemListService>(
+            "QuestItemListService",
+            { useClass: QuestItemListService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestRecommendationService>(
+            "QuestRecommendationService",
+            { useClass: QuestRecommendationService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestWebhookService>(
+            "QuestWebhookService",
+            { useClass: QuestWebhookService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestDiagnosticsService>(
+            "QuestDiagnosticsService",
+            { useClass: QuestDiagnosticsService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestRepeatableService>(
+            "QuestRepeatableService",
+            { useClass: QuestRepeatableService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        container.register<QuestComparisonService>(
+            "QuestComparisonService",
+            { useClass: QuestComparisonService },
+            { lifecycle: Lifecycle.Singleton }
+        );
+        // SPT's WebSocket server routes connections to every registered handler whose hook URL matches
+        container.registerType("WebSocketConnectionHandler", "QuestStatusPushService");
+
+        container.resolve<ModConfigService>("ModConfigService").load();
+        const questLocaleService = container.resolve<QuestLocaleService>("QuestLocaleService");
+        questLocaleService.loadTranslations();
+        const privacyService = container.resolve<QuestPrivacyService>("QuestPrivacyService");
+        privacyService.load();
 
         // Resolve service to trigger any initialization logic
         const questStatusService = container.resolve<LunaStatusQuestsService>("LunaStatusQuestsService");
+        const pushService = container.resolve<QuestStatusPushService>("QuestStatusPushService");
+        const objectiveService = container.resolve<QuestObjectiveService>("QuestObjectiveService");
+        const graphService = container.resolve<QuestGraphService>("QuestGraphService");
+        const squadPlannerService = container.resolve<QuestSquadPlannerService>("QuestSquadPlannerService");
+        const raidPlannerService = container.resolve<QuestRaidPlannerService>("QuestRaidPlannerService");
+        const historyService = container.resolve<QuestHistoryService>("QuestHistoryService");
+        historyService.load();
+        const summaryService = container.resolve<QuestSummaryService>("QuestSummaryService");
+        const itemListService = container.resolve<QuestItemListService>("QuestItemListService");
+        const recommendationService = container.resolve<QuestRecommendationService>("QuestRecommendationService");
+        // Subscribes to status changes; it has no routes
+        container.resolve<QuestWebhookService>("QuestWebhookService");
+        const diagnosticsService = container.resolve<QuestDiagnosticsService>("QuestDiagnosticsService");
+        const repeatableService = container.resolve<QuestRepeatableService>("QuestRepeatableService");
+        const comparisonService = container.resolve<QuestComparisonService>("QuestComparisonService");
 
         staticRouterModService.registerStaticRouter(
             "LunaStatusQuests",
-            [
+            this.withTiming(diagnosticsService, [
                 {
                     url: "/LunaStatusQuests/statuses",
-                    action: async (): Promise<string> => 
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return questStatusService.handleGetQuestStatuses(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/quests",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return questStatusService.handleGetQuestStatusesBatch(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/graph",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return graphService.handleGetGraph(info, undefined, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/graph.dot",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return graphService.handleGetGraph(info, "dot", sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/squad",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return squadPlannerService.handleGetSquadPlan(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/raid",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return raidPlannerService.handleGetRaidPlan(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/history",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return historyService.handleGetHistory(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/summary",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return summaryService.handleGetSummary(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/privacy",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return privacyService.handlePrivacy(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/items",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return itemListService.handleGetItemList(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/repeatables",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return repeatableService.handleGetRepeatables(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/compare",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return comparisonService.handleCompare(info, sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/admin/diagnostics",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return diagnosticsService.handleGetDiagnostics(sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/admin/rebuild",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return diagnosticsService.handleRebuild(sessionId);
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/admin/webhooks/test",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return diagnosticsService.handleTestWebhooks(sessionId);
+                    }
+                }
+            ]),
+            "luna-status-quests"
+        );
+
+        // Runs after SPT has handled the item event, so quest accept/hand-in/complete can be pushed immediately
+        staticRouterModService.registerStaticRouter(
+            "LunaStatusQuestsItemEvents",
+            [
+                {
+                    url: "/client/game/profile/items/moving",
+                    action: async (url: string, info: any, sessionId: string, output: string): Promise<string> => 
                     {
-                        return questStatusService.handleGetQuestStatuses();
+                        pushService.handleItemEvents(info);
+                        return output;
                     }
                 }
             ],
+            "spt"
+        );
+
+        dynamicRouterModService.registerDynamicRouter(
+            "LunaStatusQuestsDynamic",
+            this.withTiming(diagnosticsService, [
+                {
+                    url: "/LunaStatusQuests/quest/",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return questStatusService.handleGetQuestStatus(
+                            this.getRouteParameter(url),
+                            this.getQueryParameter(url, "locale"),
+                            sessionId,
+                            this.getQueryParameter(url, "version")
+                        );
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/objectives/",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return objectiveService.handleGetQuestObjectives(
+                            this.getRouteParameter(url),
+                            this.getQueryParameter(url, "locale"),
+                            sessionId
+                        );
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/profile/",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return questStatusService.handleGetProfileStatuses(
+                            this.getRouteParameter(url),
+                            this.getQueryParameter(url, "locale"),
+                            sessionId,
+                            this.getQueryParameter(url, "version")
+                        );
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/recommendations/",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return recommendationService.handleGetRecommendations(
+                            this.getRouteParameter(url),
+                            this.getQueryParameter(url, "limit"),
+                            this.getQueryParameter(url, "locale"),
+                            sessionId
+                        );
+                    }
+                },
+                {
+                    url: "/LunaStatusQuests/raid/",
+                    action: async (url: string, info: any, sessionId: string): Promise<string> => 
+                    {
+                        return raidPlannerService.handleGetRaidPlan(
+                            { mapId: this.getRouteParameter(url), locale: this.getQueryParameter(url, "locale") },
+                            sessionId
+                        );
+                    }
+                }
+            ]),
             "luna-status-quests"
         );
 
+        // Remembers which language each client loaded, so names and lock reasons match its game language
+        dynamicRouterModService.registerDynamicRouter(
+            "LunaStatusQuestsClientLocale",
+            [
+                {
+                    url: "/client/locale/",
+                    action: async (url: string, info: any, sessionId: string, output: string): Promise<string> => 
+                    {
+                        questLocaleService.setSessionLocale(sessionId, this.getRouteParameter(url));
+                        return output;
+                    }
+                }
+            ],
+            "spt"
+        );
+
         logger.info("[LunaStatusQuestsServer] Backend module loaded successfully");
     }
+
+    /**
+     * Records the statuses of the freshly loaded profiles as the baseline snapshot. Without it the first recompute
+     * after a restart becomes the baseline, and whatever changed in that first raid never reaches history, webhooks
+     * or WebSocket clients.
+     */
+    public async postSptLoad(container: DependencyContainer): Promise<void> 
+    {
+        const logger = container.resolve<ILogger>("WinstonLogger");
+
+        try 
+        {
+            container.resolve<LunaStatusQuestsService>("LunaStatusQuestsService").refreshSnapshot();
+        }
+        catch (error) 
+        {
+            logger.error(`[LunaStatusQuestsServer] Failed to record the startup quest status baseline: ${error}`);
+        }
+    }
+
+    /**
+     * Records the duration of every request to the given routes for the diagnostics route.
+     * Dynamic routes are timed under their URL prefix, e.g. /LunaStatusQuests/quest/.
+     */
+    private withTiming(diagnosticsService: QuestDiagnosticsService, routes: RouteAction[]): RouteAction[] 
+    {
+        return routes.map((route) => ({
+            url: route.url,
+            action: async (url: string, info: any, sessionId: string, output: string): Promise<string> => 
+            {
+                return diagnosticsService.measure(route.url, () => route.action(url, info, sessionId, output));
+            }
+        }));
+    }
+
+    /**
+     * Extracts the trailing path segment of a dynamic route URL, e.g. the quest ID in /LunaStatusQuests/quest/{questId}.
+     */
+    private getRouteParameter(url: string): string 
+    {
+        const path = url.split("?")[0];
+        return decodeURIComponent(path.substring(path.lastIndexOf("/") + 1));
+    }
+
+    /**
+     * Reads a query string parameter of a dynamic route URL, e.g. ?locale=de.
+     */
+    private getQueryParameter(url: string, name: string): string | undefined 
+    {
+        const query = url.split("?")[1];
+        return query ? (new URLSearchParams(query).get(name) ?? undefined) : undefined;
+    }
 }
 
 module.exports = { mod: new LunaStatusQuestsBackend() };
@@ -0,0 +1,62 @@
+import { inject, injectable } from "tsyringe";
+import type { ILogger } from "@spt/models/spt/utils/ILogger";
+import type { LogLevel } from "./models/LunaStatusQuestsConfig";
+import type { ModConfigService } from "./ModConfigService";
+
+/**
+ * Thin wrapper around SPT's logger that drops messages below the configured `logLevel`.
+ */
+@injectable()
+export class LunaStatusQuestsLogger 
+{
+    private static readonly levelOrder: Record<LogLevel, number> = { error: 0, warning: 1, info: 2, debug: 3 };
+
+    constructor(
+        @inject("WinstonLogger") private logger: ILogger,
+        @inject("ModConfigService") private configService: ModConfigService
+    ) 
+    {}
+
+    public error(message: string): void 
+    {
+        this.logger.error(message);
+    }
+
+    public warning(message: string): void 
+    {
+        if (this.isEnabled("warning")) 
+        {
+            this.logger.warning(message);
+        }
+    }
+
+    public info(message: string): void 
+    {
+        if (this.isEnabled("info")) 
+        {
+            this.logger.info(message);
+        }
+    }
+
+    public success(message: string): void 
+    {
+        if (this.isEnabled("info")) 
+        {
+            this.logger.success(message);
+        }
+    }
+
+    public debug(message: string): void 
+    {
+        if (this.isEnabled("debug")) 
+        {
+            this.logger.debug(message);
+        }
+    }
+
+    private isEnabled(level: LogLevel): boolean 
+    {
+        const configured = this.configService.getConfig().logLevel;
+        return LunaStatusQuestsLogger.levelOrder[level] <= LunaStatusQuestsLogger.levelOrder[configured];
+    }
+}
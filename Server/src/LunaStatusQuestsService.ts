@@ -1,75 +1,179 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
 import { inject, injectable } from "tsyringe";
-import type { ILogger } from "@spt/models/spt/utils/ILogger";
 import { ProfileHelper } from "@spt/helpers/ProfileHelper";
 import { QuestHelper } from "@spt/helpers/QuestHelper";
 import type { IPmcData } from "@spt/models/eft/common/IPmcData";
-import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import type { IQuestStatus, ITraderInfo } from "@spt/models/eft/common/tables/IBotBase";
+import type { IQuest, IQuestCondition } from "@spt/models/eft/common/tables/IQuest";
 import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { supportedSchemaVersions, unreachableQuestStatus } from "./models/QuestStatusModels";
+import type {
+    CompactQuestStatusResponse,
+    CompactQuestStatusSyncResponse,
+    ErrorCode,
+    ErrorResponse,
+    ExcludedProfile,
+    LockReason,
+    PlayerProfile,
+    PrerequisiteCacheDiagnostics,
+    PrerequisiteInfo,
+    ProfileCacheDiagnostics,
+    ProfileExclusionReason,
+    ProfileQuestStatuses,
+    QuestGraphIssues,
+    QuestBatchRequest,
+    QuestCompletion,
+    QuestStatusInfo,
+    QuestStatusResponse,
+    QuestStatusSyncRequest,
+    UnreachableReason,
+    UnreachableReasonType
+} from "./models/QuestStatusModels";
+import { QuestStatusSnapshotService } from "./QuestStatusSnapshotService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+import type { QuestLocaleService } from "./QuestLocaleService";
+import type { QuestPrivacyService } from "./QuestPrivacyService";
 
-interface QuestStatusInfo 
+interface BlockerInfo 
 {
-    status: number;
-    lockedReason?: string;
-    questName?: string;
+    firstBlockerId: string;
+    questsBehind: number;
 }
 
-interface QuestStatusResponse 
+interface QuestLockInfo 
 {
-    [playerName: string]: {
-        [questId: string]: QuestStatusInfo;
-    };
+    prerequisiteCount: number;
+    incompletePrerequisites: PrerequisiteInfo[];
+    blocker?: BlockerInfo;
 }
 
-interface PrerequisiteInfo 
+interface UnreachableInfo 
+{
+    type: UnreachableReasonType;
+    questId?: string;
+    side?: string;
+}
+
+/**
+ * A quest that fails when another quest reaches one of the given statuses, e.g. the other branch of an exclusive pair.
+ */
+interface QuestExclusion 
 {
     id: string;
-    name: string;
+    statuses: number[];
 }
 
-interface BlockerInfo 
+/**
+ * Everything computed for one profile, valid while the profile's fingerprint and the quest database are unchanged.
+ */
+interface ProfileCacheEntry 
 {
-    firstBlockerId: string;
-    firstBlockerName: string;
-    questsBehind: number;
+    fingerprint: string;
+    /** Unix milliseconds of when the entry was created, i.e. when the profile's quest data last changed. */
+    createdAt: number;
+    /** prepareCaches() generation in which the fingerprint was last compared. */
+    checkedGeneration: number;
+    questStates: Map<string, IQuestStatus>;
+    /** Deepest incomplete chain below each quest, filled in topological order on first use. */
+    chainBlockers?: Map<string, BlockerInfo | null>;
+    /** Quests whose chain was cut off at maxQuestDepth while filling chainBlockers. */
+    depthLimitHits: string[];
+    lockInfo: Map<string, QuestLockInfo | undefined>;
+    unreachable: Map<string, UnreachableInfo | null>;
+    /** Full status maps by locale. */
+    statuses: Map<string, ProfileQuestStatuses>;
 }
 
 @injectable()
 export class LunaStatusQuestsService 
 {
     private questPrerequisites: Map<string, PrerequisiteInfo[]> = new Map();
-    private prerequisitesCacheBuilt = false;
-    private questPrerequisitesBuiltAt = 0;
-
-    private lockedReasonCache: Map<string, string | undefined> = new Map();
-
-    // Exclude system/bot profiles that don't represent real players
-    private static readonly excludedProfilePrefixes = ["headless_", "bot_"];
-    // Cache TTL: 5 minutes balances freshness with performance (quest data changes infrequently)
-    private static readonly cacheTtlMs = 5 * 60 * 1000;
-    // Maximum recursion depth to prevent stack overflow on circular or extremely deep prerequisite chains
-    private static readonly maxQuestDepth = 500;
+    private questExclusions: Map<string, QuestExclusion[]> = new Map();
+    private questSides: Map<string, string> = new Map();
+    private kappaQuests: Set<string> = new Set();
+    // Prerequisites before the quests that need them; the value is the quest's position
+    private topologicalOrder: Map<string, number> = new Map();
+    private questDatabaseHash?: string;
+    // Quest objects the hash was last computed from; SPT hands out a new array of the same objects on every call
+    private hashedQuests: IQuest[] = [];
+    private prerequisiteCacheBuiltAt?: number;
+    private graphIssues: QuestGraphIssues = { cycles: [], danglingPrerequisites: [] };
+
+    private profileCache: Map<string, ProfileCacheEntry> = new Map();
+    private cacheGeneration = 0;
+
+    // Prerequisite statuses that can no longer change
+    private static readonly finalStatuses: number[] = [
+        QuestStatus.Success,
+        QuestStatus.Fail,
+        QuestStatus.MarkedAsFailed,
+        QuestStatus.Expired
+    ];
+    // "Collector", which requires every quest needed for the Kappa container
+    private static readonly collectorQuestId = "5c51aac186f77432ea65c552";
+    private static readonly packagePath = path.join(__dirname, "..", "package.json");
+    private modVersion?: string;
 
     constructor(
-        @inject("WinstonLogger") private logger: ILogger,
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
         @inject("ProfileHelper") private profileHelper: ProfileHelper,
-        @inject("QuestHelper") private questHelper: QuestHelper
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("QuestStatusSnapshotService") private snapshotService: QuestStatusSnapshotService,
+        @inject("ModConfigService") private configService: ModConfigService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService,
+        @inject("QuestPrivacyService") private privacyService: QuestPrivacyService
     ) 
     {}
 
-    public async handleGetQuestStatuses(): Promise<string> 
+    /**
+     * Returns every profile's status for every quest.
+     * Without a `since` value the plain QuestStatusResponse is returned for older clients;
+     * with one, only the entries changed since that token are returned (or a full snapshot for anything else).
+     * Clients that ask for schema version 2 get the same content as a CompactQuestStatusResponse.
+     */
+    public async handleGetQuestStatuses(request?: QuestStatusSyncRequest, sessionId?: string): Promise<string> 
     {
         try 
         {
-            if (this.isCacheStale()) 
+            const version = this.getSchemaVersion(request?.version);
+            if (version === undefined) 
             {
-                this.buildPrerequisiteCache();
+                return this.unsupportedVersionResponse(request?.version);
             }
 
-            // Clear memoization cache each request to ensure fresh calculations per profile
-            this.lockedReasonCache.clear();
+            const locale = this.questLocaleService.resolveLocale(request?.locale, sessionId);
+            const statuses = this.refreshSnapshot(locale);
 
-            const statuses = this.getQuestStatuses();
-            return JSON.stringify(statuses);
+            if (request?.since === undefined || request.since === null) 
+            {
+                const scoped = this.scopeToRequester(statuses, sessionId);
+                return JSON.stringify(
+                    version === 2 ? this.toCompactResponse(scoped, locale) : this.toSchemaV1(scoped)
+                );
+            }
+
+            // The snapshot holds every shared profile; friends-only requesters get their part of it
+            const changes = this.snapshotService.getChangesSince(request.since, locale);
+            changes.statuses = this.scopeToRequester(changes.statuses, sessionId);
+            changes.removedQuests &&= this.scopeToRequester(changes.removedQuests, sessionId);
+            changes.removedProfiles &&= changes.removedProfiles.filter((name) =>
+                this.privacyService.canSee(sessionId, name)
+            );
+            if (version === 2) 
+            {
+                const { statuses: changedStatuses, ...sync } = changes;
+                const response: CompactQuestStatusSyncResponse = {
+                    ...this.toCompactResponse(changedStatuses, locale),
+                    ...sync
+                };
+                return JSON.stringify(response);
+            }
+
+            changes.statuses = this.toSchemaV1(changes.statuses);
+            return JSON.stringify(changes);
         }
         catch (error) 
         {
@@ -78,16 +182,345 @@ export class LunaStatusQuestsService
         }
     }
 
-    private getQuestStatuses(): QuestStatusResponse 
+    /**
+     * Recomputes every profile's status and records it as the latest snapshot of that locale.
+     * Defaults to the server's game language, whose snapshot also notifies change listeners.
+     */
+    public refreshSnapshot(locale = this.questLocaleService.getDefaultLocale()): QuestStatusResponse 
+    {
+        this.prepareCaches();
+
+        const statuses = this.getQuestStatuses(undefined, locale);
+        this.snapshotService.record(statuses, locale);
+        return statuses;
+    }
+
+    /**
+     * Returns every profile's status for a single quest.
+     */
+    public async handleGetQuestStatus(
+        questId: string,
+        locale?: string,
+        sessionId?: string,
+        version?: string
+    ): Promise<string> 
+    {
+        return this.handleGetQuestStatusesBatch({ questIds: [questId], locale, version }, sessionId);
+    }
+
+    /**
+     * Returns every profile's status for a list of quests supplied in the request body.
+     */
+    public async handleGetQuestStatusesBatch(
+        request: QuestBatchRequest | undefined,
+        sessionId?: string
+    ): Promise<string> 
+    {
+        try 
+        {
+            const questIds = request?.questIds;
+            if (!Array.isArray(questIds) || questIds.length === 0 || questIds.some((id) => typeof id !== "string")) 
+            {
+                return this.errorResponse("InvalidRequest", "Request body must contain a non-empty questIds array");
+            }
+
+            const version = this.getSchemaVersion(request.version);
+            if (version === undefined) 
+            {
+                return this.unsupportedVersionResponse(request.version);
+            }
+
+            const questsById = new Map(this.questHelper.getQuestsFromDb().map((quest) => [quest._id, quest]));
+            const unknownIds = questIds.filter((id) => !questsById.has(id));
+            if (unknownIds.length > 0) 
+            {
+                return this.errorResponse("QuestNotFound", `Unknown quest ID(s): ${unknownIds.join(", ")}`, unknownIds);
+            }
+
+            this.prepareCaches();
+
+            const locale = this.questLocaleService.resolveLocale(request.locale, sessionId);
+            const quests = [...new Set(questIds)].map((id) => questsById.get(id));
+            const statuses = this.getQuestStatuses(quests, locale, this.getPlayerProfilesFor(sessionId));
+            return JSON.stringify(version === 2 ? this.toCompactResponse(statuses, locale) : this.toSchemaV1(statuses));
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetQuestStatusesBatch: ${error}`);
+            return this.errorResponse("InternalError", "Failed to compute quest statuses");
+        }
+    }
+
+    /**
+     * Returns the full quest status map of a single profile, looked up by nickname.
+     */
+    public async handleGetProfileStatuses(
+        nickname: string,
+        locale?: string,
+        sessionId?: string,
+        version?: string
+    ): Promise<string> 
+    {
+        try 
+        {
+            const schemaVersion = this.getSchemaVersion(version);
+            if (schemaVersion === undefined) 
+            {
+                return this.unsupportedVersionResponse(version);
+            }
+
+            const player = this.getPlayerProfilesFor(sessionId).find((candidate) => candidate.playerName === nickname);
+            if (!player) 
+            {
+                return this.errorResponse("ProfileNotFound", `Unknown profile: ${nickname}`, [nickname]);
+            }
+
+            this.prepareCaches();
+
+            const resolvedLocale = this.questLocaleService.resolveLocale(locale, sessionId);
+            const result: QuestStatusResponse = {
+                [player.playerName]: this.getProfileQuestStatuses(player.pmcData, undefined, resolvedLocale)
+            };
+            return JSON.stringify(
+                schemaVersion === 2 ? this.toCompactResponse(result, resolvedLocale) : this.toSchemaV1(result)
+            );
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetProfileStatuses: ${error}`);
+            return this.errorResponse("InternalError", "Failed to compute quest statuses");
+        }
+    }
+
+    /**
+     * Rebuilds the prerequisite cache when the quest database changed, and makes every profile's cached statuses
+     * be checked against its current quest data again.
+     * Must be called before computing statuses outside of the route handlers above.
+     */
+    public prepareCaches(): void 
+    {
+        const quests: IQuest[] = this.questHelper.getQuestsFromDb() ?? [];
+
+        if (!this.isHashedQuestList(quests)) 
+        {
+            const questDatabaseHash = this.getQuestDatabaseHash(quests);
+            if (questDatabaseHash !== this.questDatabaseHash && this.buildPrerequisiteCache(quests)) 
+            {
+                this.questDatabaseHash = questDatabaseHash;
+                // Cached statuses and lock reasons were computed from the old prerequisite graph
+                this.profileCache.clear();
+            }
+
+            // After a failed build the list is hashed again on the next call, so the build is retried
+            this.hashedQuests = questDatabaseHash === this.questDatabaseHash ? quests : [];
+        }
+
+        this.cacheGeneration++;
+    }
+
+    /**
+     * Rebuilds the prerequisite cache even though the quest database looks unchanged, and drops every cached
+     * profile. Returns false if the build failed; the previous cache is kept then.
+     */
+    public rebuildCaches(): boolean 
+    {
+        this.questDatabaseHash = undefined;
+        this.hashedQuests = [];
+        this.prepareCaches();
+        return this.questDatabaseHash !== undefined;
+    }
+
+    public getPrerequisiteCacheDiagnostics(): PrerequisiteCacheDiagnostics 
+    {
+        const builtAt = this.prerequisiteCacheBuiltAt;
+        let prerequisiteLinks = 0;
+        for (const prerequisites of this.questPrerequisites.values()) 
+        {
+            prerequisiteLinks += prerequisites.length;
+        }
+
+        return {
+            builtAt,
+            ageSeconds: builtAt === undefined ? undefined : Math.floor((Date.now() - builtAt) / 1000),
+            quests: (this.questHelper.getQuestsFromDb() ?? []).length,
+            questsWithPrerequisites: this.questPrerequisites.size,
+            prerequisiteLinks,
+            questsWithExclusions: this.questExclusions.size,
+            kappaQuests: this.kappaQuests.size
+        };
+    }
+
+    /**
+     * One entry per cached profile, keyed by profile ID; the caller adds nicknames.
+     */
+    public getProfileCacheDiagnostics(): ProfileCacheDiagnostics[] 
+    {
+        const now = Date.now();
+        return [...this.profileCache].map(([profileId, entry]) => ({
+            profileId,
+            ageSeconds: Math.floor((now - entry.createdAt) / 1000),
+            locales: [...entry.statuses.keys()],
+            depthLimitHits: entry.depthLimitHits
+        }));
+    }
+
+    /**
+     * Serializes a structured error so clients can tell it apart from an empty result.
+     */
+    public errorResponse(error: ErrorCode, message: string, unknownIds?: string[]): string 
+    {
+        const response: ErrorResponse = { error, message, unknownIds };
+        return JSON.stringify(response);
+    }
+
+    /**
+     * Converts statuses to schema version 1, which only uses the game's quest statuses: unreachable quests are
+     * reported as Locked and keep their unreachableReason. Clients that predate the unreachable status would show it
+     * as unknown otherwise. Entries are copied, the given statuses are cached and left as they are.
+     */
+    public toSchemaV1(statuses: QuestStatusResponse): QuestStatusResponse 
+    {
+        const result: QuestStatusResponse = {};
+        for (const [playerName, questStatuses] of Object.entries(statuses)) 
+        {
+            result[playerName] = questStatuses;
+            for (const [questId, info] of Object.entries(questStatuses)) 
+            {
+                if (info.status !== unreachableQuestStatus) 
+                {
+                    continue;
+                }
+
+                if (result[playerName] === questStatuses) 
+                {
+                    result[playerName] = { ...questStatuses };
+                }
+
+                result[playerName][questId] = { ...info, status: this.toSchemaV1Status(info.status) };
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * A single status in schema version 1, for routes and events that report bare status numbers: unreachable is
+     * Locked there, and the unreachableReason or the route's own field tells the two apart.
+     */
+    public toSchemaV1Status(status: number): number 
+    {
+        return status === unreachableQuestStatus ? QuestStatus.Locked : status;
+    }
+
+    /**
+     * Converts statuses to schema version 2. Quest names come from the dictionary, so they are looked up
+     * even when includeQuestNames leaves them out of version 1 responses.
+     */
+    public toCompactResponse(statuses: QuestStatusResponse, locale: string): CompactQuestStatusResponse 
+    {
+        const quests: IQuest[] = this.questHelper.getQuestsFromDb() ?? [];
+        const questsById = new Map(quests.map((quest) => [quest._id, quest]));
+        const builtAt = this.prerequisiteCacheBuiltAt;
+        const generatedAt = Date.now();
+        const response: CompactQuestStatusResponse = {
+            header: {
+                schemaVersion: 2,
+                modVersion: this.getModVersion(),
+                generatedAt,
+                cacheAgeSeconds: builtAt === undefined ? undefined : Math.floor((generatedAt - builtAt) / 1000)
+            },
+            quests: {},
+            profiles: {}
+        };
+
+        for (const [playerName, questStatuses] of Object.entries(statuses)) 
+        {
+            response.profiles[playerName] = Object.entries(questStatuses).map(([questId, info]) => 
+            {
+                response.quests[questId] ??= {
+                    name: info.questName ?? this.questLocaleService.getQuestName(questId, locale) ?? questId,
+                    traderId: questsById.get(questId)?.traderId,
+                    kappa: this.kappaQuests.has(questId)
+                };
+
+                return {
+                    questId,
+                    status: this.getStatusName(info.status),
+                    lockedReason: info.lockedReason,
+                    lockReasons: info.lockReasons,
+                    unreachableReason: info.unreachableReason
+                };
+            });
+        }
+
+        return response;
+    }
+
+    /**
+     * Version 1 when none is requested; undefined for versions this server does not know.
+     */
+    private getSchemaVersion(version: unknown): number | undefined 
+    {
+        if (version === undefined || version === null) 
+        {
+            return 1;
+        }
+
+        const number = typeof version === "string" && version.trim() !== "" ? Number(version) : version;
+        return supportedSchemaVersions.find((supported) => supported === number);
+    }
+
+    private unsupportedVersionResponse(version: unknown): string 
+    {
+        return this.errorResponse(
+            "InvalidRequest",
+            `Unsupported schema version: ${version}; supported versions are ${supportedSchemaVersions.join(", ")}`
+        );
+    }
+
+    private getStatusName(status: number): string 
+    {
+        return status === unreachableQuestStatus ? "Unreachable" : (QuestStatus[status] ?? `${status}`);
+    }
+
+    /**
+     * Read once from the mod's package.json, which is shipped next to the compiled sources.
+     */
+    private getModVersion(): string 
+    {
+        if (this.modVersion === undefined) 
+        {
+            try 
+            {
+                this.modVersion = `${JSON.parse(fs.readFileSync(LunaStatusQuestsService.packagePath, "utf-8")).version}`;
+            }
+            catch (error) 
+            {
+                this.logger.debug(`[LunaStatusQuestsServer] Could not read the mod version: ${error}`);
+                this.modVersion = "unknown";
+            }
+        }
+
+        return this.modVersion;
+    }
+
+    /**
+     * Computes the statuses of the given profiles, or of every shared profile when none are given.
+     */
+    public getQuestStatuses(
+        quests?: IQuest[],
+        locale = this.questLocaleService.getDefaultLocale(),
+        requestedPlayers?: PlayerProfile[]
+    ): QuestStatusResponse 
     {
         const result: QuestStatusResponse = {};
 
         try 
         {
-            const allProfiles = this.profileHelper.getProfiles();
-            const allQuests: IQuest[] = this.questHelper.getQuestsFromDb();
+            const players = requestedPlayers ?? this.getPlayerProfiles();
+            const allQuests: IQuest[] = quests ?? this.questHelper.getQuestsFromDb();
 
-            if (Object.keys(allProfiles).length === 0) 
+            if (players.length === 0) 
             {
                 this.logger.info("[LunaStatusQuestsServer] No profiles available");
                 return result;
@@ -99,181 +532,532 @@ export class LunaStatusQuestsService
                 return result;
             }
 
-            this.logger.debug(`[LunaStatusQuestsServer] Found ${Object.keys(allProfiles).length} profiles`);
+            for (const player of players) 
+            {
+                this.logger.debug(`[LunaStatusQuestsServer] Loading profile for player: ${player.playerName}`);
+                result[player.playerName] = this.getProfileQuestStatuses(player.pmcData, quests, locale);
+            }
 
-            for (const profileId in allProfiles) 
+            if (!quests && !requestedPlayers) 
             {
-                if (!this.isValidProfile(profileId)) 
-                {
-                    continue;
-                }
+                this.pruneProfileCache(new Set(players.map((player) => player.pmcData._id)));
+            }
 
-                const profile = allProfiles[profileId].characters?.pmc;
+            this.logger.debug(`[LunaStatusQuestsServer] Processed ${Object.keys(result).length} profiles`);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error reading profiles: ${error}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Collects the PMC data of every real player profile that has a nickname and is shared.
+     */
+    public getPlayerProfiles(): PlayerProfile[] 
+    {
+        const players: PlayerProfile[] = [];
+        const allProfiles = this.profileHelper.getProfiles();
+
+        this.logger.debug(`[LunaStatusQuestsServer] Found ${Object.keys(allProfiles).length} profiles`);
+
+        for (const profileId in allProfiles) 
+        {
+            const profile = allProfiles[profileId].characters?.pmc;
+            const exclusion = this.getProfileExclusion(profileId, profile);
+
+            if (exclusion === "NoNickname") 
+            {
+                this.logger.debug(`[LunaStatusQuestsServer] Profile ${profileId} has no nickname`);
+            }
+
+            if (!exclusion) 
+            {
+                players.push({ profileId, playerName: profile.Info.Nickname, pmcData: profile });
+            }
+        }
 
-                if (!profile) 
+        return players;
+    }
+
+    /**
+     * Every profile getPlayerProfiles leaves out, with the reason.
+     */
+    public getExcludedProfiles(): ExcludedProfile[] 
+    {
+        const excluded: ExcludedProfile[] = [];
+        const allProfiles = this.profileHelper.getProfiles();
+
+        for (const profileId in allProfiles) 
+        {
+            const profile = allProfiles[profileId].characters?.pmc;
+            const reason = this.getProfileExclusion(profileId, profile);
+
+            if (reason) 
+            {
+                excluded.push({ profileId, playerName: profile?.Info?.Nickname || undefined, reason });
+            }
+        }
+
+        return excluded;
+    }
+
+    /**
+     * The shared profiles a requester may see: all of them, or only its own and its friends' in friends-only mode.
+     */
+    public getPlayerProfilesFor(sessionId: string | undefined): PlayerProfile[] 
+    {
+        return this.getPlayerProfiles().filter((player) => this.privacyService.canSee(sessionId, player.playerName));
+    }
+
+    /**
+     * The requested nicknames among the profiles a requester may see, or all of them when none are requested.
+     * Returns an error response for a malformed list or unknown names.
+     */
+    public resolveRequestedPlayers(profiles: unknown, sessionId: string | undefined): PlayerProfile[] | string 
+    {
+        const players = this.getPlayerProfilesFor(sessionId);
+        if (profiles === undefined) 
+        {
+            return players;
+        }
+
+        if (!Array.isArray(profiles) || profiles.some((name) => typeof name !== "string")) 
+        {
+            return this.errorResponse("InvalidRequest", "profiles must be an array of nicknames");
+        }
+
+        const unknownProfiles = profiles.filter((name) => !players.some((player) => player.playerName === name));
+        if (unknownProfiles.length > 0) 
+        {
+            return this.errorResponse(
+                "ProfileNotFound",
+                `Unknown profile(s): ${unknownProfiles.join(", ")}`,
+                unknownProfiles
+            );
+        }
+
+        return players.filter((player) => profiles.includes(player.playerName));
+    }
+
+    /**
+     * Drops the profiles a requester may not see from a map keyed by nickname.
+     */
+    private scopeToRequester<T>(values: { [playerName: string]: T }, sessionId: string | undefined): {
+        [playerName: string]: T;
+    } 
+    {
+        const result: { [playerName: string]: T } = {};
+        for (const [playerName, value] of Object.entries(values)) 
+        {
+            if (this.privacyService.canSee(sessionId, playerName)) 
+            {
+                result[playerName] = value;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns a profile's statuses for the given quests, or for every quest when none are given.
+     * Full maps are cached per locale and reused until the profile's quest data changes.
+     */
+    public getProfileQuestStatuses(
+        profile: IPmcData,
+        quests: IQuest[] | undefined,
+        locale: string
+    ): ProfileQuestStatuses 
+    {
+        const entry = this.getProfileCacheEntry(profile);
+        const cached = entry.statuses.get(locale);
+
+        if (cached && !quests) 
+        {
+            return cached;
+        }
+
+        if (cached) 
+        {
+            const subset: ProfileQuestStatuses = {};
+            for (const quest of quests) 
+            {
+                subset[quest._id] = cached[quest._id] ?? this.computeQuestStatusInfo(quest, profile, entry, locale);
+            }
+
+            return subset;
+        }
+
+        const questStatuses: ProfileQuestStatuses = {};
+        for (const quest of quests ?? this.questHelper.getQuestsFromDb()) 
+        {
+            questStatuses[quest._id] = this.computeQuestStatusInfo(quest, profile, entry, locale);
+        }
+
+        if (!quests) 
+        {
+            entry.statuses.set(locale, questStatuses);
+        }
+
+        return questStatuses;
+    }
+
+    private computeQuestStatusInfo(
+        quest: IQuest,
+        profile: IPmcData,
+        entry: ProfileCacheEntry,
+        locale: string
+    ): QuestStatusInfo 
+    {
+        try 
+        {
+            return this.getQuestStatusInfo(quest, profile, entry, locale);
+        }
+        catch (questError) 
+        {
+            this.logger.debug(
+                `[LunaStatusQuestsServer] Failed to get status for quest ${quest._id}: ${questError}`
+            );
+            return {
+                status: QuestStatus.Locked,
+                questName: quest._id
+            };
+        }
+    }
+
+    private getQuestStatusInfo(
+        quest: IQuest,
+        profile: IPmcData,
+        entry: ProfileCacheEntry,
+        locale: string
+    ): QuestStatusInfo 
+    {
+        const questStatus = this.getStatus(entry, quest._id);
+
+        if (!this.isValidQuestStatus(questStatus)) 
+        {
+            this.logger.debug(
+                `[LunaStatusQuestsServer] Invalid quest status ${questStatus} for quest ${quest._id}`
+            );
+        }
+
+        const questName = this.questLocaleService.getQuestName(quest._id, locale);
+        const responseFields = this.configService.getConfig().response;
+
+        // Checked first: the blocker of a quest that can never unlock would only be misleading
+        const unreachable = this.getUnreachableInfo(quest._id, profile, entry);
+        if (unreachable) 
+        {
+            const unreachableReason = this.getUnreachableReason(unreachable, locale);
+            return {
+                status: unreachableQuestStatus,
+                lockedReason: responseFields.includeLockedReason ? unreachableReason.message : undefined,
+                unreachableReason,
+                questName: responseFields.includeQuestNames ? (questName ?? quest._id) : undefined
+            };
+        }
+
+        let lockedReason: string | undefined = undefined;
+        let lockReasons: LockReason[] = [];
+        let finalStatus = questStatus;
+        
+        if (questStatus === QuestStatus.Locked || questStatus === QuestStatus.AvailableAfter) 
+        {
+            lockedReason = this.formatLockedReason(quest._id, entry, locale);
+            lockReasons = this.getLockReasons(quest, profile, entry, locale);
+            
+            // If quest is locked but every start condition is met (prerequisites, level, traders, timers),
+            // it should actually be Available (the game API may be stale)
+            if (questStatus === QuestStatus.Locked && lockReasons.length === 0) 
+            {
+                if (this.questPrerequisites.has(quest._id)) 
                 {
-                    continue;
+                    // Override the potentially stale Locked status from the API
+                    finalStatus = QuestStatus.AvailableForStart;
+                    this.logger.debug(
+                        `[LunaStatusQuestsServer] Quest ${quest._id.substring(0, 12)} overridden to Available (all start conditions met)`
+                    );
+                }
+                else 
+                {
+                    // No prerequisites and no unmet level/trader/timer condition - locked by something we don't model
+                    this.logger.debug(
+                        `[LunaStatusQuestsServer] Quest ${quest._id.substring(0, 12)} is Locked with no unmet start conditions.`
+                    );
                 }
+            }
+        }
+
+        return {
+            status: finalStatus,
+            lockedReason: responseFields.includeLockedReason ? lockedReason : undefined,
+            lockReasons: responseFields.includeLockReasons && lockReasons.length > 0 ? lockReasons : undefined,
+            questName: responseFields.includeQuestNames ? (questName ?? quest._id) : undefined
+        };
+    }
+
+    /**
+     * Immediate quest prerequisites keyed by quest ID, as built by the prerequisite cache.
+     */
+    public getQuestPrerequisites(): ReadonlyMap<string, PrerequisiteInfo[]> 
+    {
+        return this.questPrerequisites;
+    }
 
-                const playerName = profile.Info?.Nickname;
+    /**
+     * Quests required for the Collector quest (Kappa container), directly or further up its chains,
+     * the Collector included. Empty when the quest database has no Collector.
+     */
+    public getKappaQuests(): ReadonlySet<string> 
+    {
+        return this.kappaQuests;
+    }
+
+    /**
+     * Cycles and unknown prerequisite IDs found while building the prerequisite cache.
+     */
+    public getGraphIssues(): QuestGraphIssues 
+    {
+        return this.graphIssues;
+    }
 
-                if (!playerName) 
+    /**
+     * Counts completed quests in one profile's status map. Unreachable quests are left out of the total
+     * unless excludeUnreachable is false, so a profile that did everything it could reaches 100%.
+     */
+    public getCompletion(
+        questStatuses: ProfileQuestStatuses,
+        excludeUnreachable = this.configService.getConfig().excludeUnreachableFromCompletion
+    ): QuestCompletion 
+    {
+        let completed = 0;
+        let unreachable = 0;
+        let total = 0;
+
+        for (const info of Object.values(questStatuses)) 
+        {
+            if (info.status === unreachableQuestStatus) 
+            {
+                unreachable++;
+                if (excludeUnreachable) 
                 {
-                    this.logger.debug(`[LunaStatusQuestsServer] Profile ${profileId} has no nickname`);
                     continue;
                 }
+            }
 
-                this.logger.debug(`[LunaStatusQuestsServer] Loading profile for player: ${playerName}`);
+            total++;
+            if (info.status === QuestStatus.Success) 
+            {
+                completed++;
+            }
+        }
 
-                const questStatuses: { [questId: string]: QuestStatusInfo } = {};
+        const percentage = total > 0 ? Math.round((completed / total) * 1000) / 10 : 0;
+        return { completed, total, unreachable, percentage };
+    }
 
-                for (const quest of allQuests) 
-                {
-                    try 
-                    {
-                        const questStatus = this.questHelper.getQuestStatus(profile, quest._id);
+    /**
+     * Why a profile is not shared, or undefined if it is.
+     */
+    private getProfileExclusion(profileId: string, profile: IPmcData | undefined): ProfileExclusionReason | undefined 
+    {
+        const config = this.configService.getConfig();
 
-                        if (!this.isValidQuestStatus(questStatus)) 
-                        {
-                            this.logger.debug(
-                                `[LunaStatusQuestsServer] Invalid quest status ${questStatus} for quest ${quest._id}`
-                            );
-                        }
+        if (config.excludedProfileIds.includes(profileId)) 
+        {
+            return "ExcludedProfileId";
+        }
 
-                        const questName = this.getQuestName(quest._id, profile);
+        if (config.excludedProfilePrefixes.some((prefix) => profileId.startsWith(prefix))) 
+        {
+            return "ExcludedProfilePrefix";
+        }
 
-                        let lockedReason: string | undefined = undefined;
-                        let finalStatus = questStatus;
-                        
-                        if (questStatus === QuestStatus.Locked) 
-                        {
-                            lockedReason = this.getLockedReason(quest._id, profile);
-                            
-                            // If quest is locked but all prerequisites are completed, 
-                            // it should actually be Available (the game API may be stale)
-                            if (lockedReason === undefined) 
-                            {
-                                // Check if quest has prerequisites - if it does and they're all completed,
-                                // override status to Available since prerequisites are the only quest-based lock
-                                const hasPrerequisites = this.questPrerequisites.has(quest._id);
-                                
-                                if (hasPrerequisites) 
-                                {
-                                    // Quest has prerequisites - verify all are completed
-                                    const prerequisites = this.questPrerequisites.get(quest._id);
-                                    if (prerequisites && prerequisites.length > 0) 
-                                    {
-                                        const allPrereqsCompleted = prerequisites.every((prereq) => 
-                                        {
-                                            const prereqStatus = this.questHelper.getQuestStatus(profile, prereq.id);
-                                            return prereqStatus === QuestStatus.Success;
-                                        });
-                                        
-                                        if (allPrereqsCompleted) 
-                                        {
-                                            // All prerequisites completed - quest should be Available
-                                            // Override the potentially stale Locked status from the API
-                                            // Using numeric value 1 which corresponds to QuestStatus.Available
-                                            finalStatus = 1; // QuestStatus.Available
-                                            lockedReason = undefined;
-                                            this.logger.debug(
-                                                `[LunaStatusQuestsServer] Quest ${quest._id.substring(0, 12)} overridden to Available (all prerequisites completed)`
-                                            );
-                                        }
-                                        
-                                    }
-                                }
-                                else 
-                                {
-                                    // No prerequisites - quest is locked by other conditions (level, trader rep, etc.)
-                                    // Keep as Locked but don't show a reason since it's not quest-based
-                                    this.logger.debug(
-                                        `[LunaStatusQuestsServer] Quest ${quest._id.substring(0, 12)} is Locked with no prerequisites. Locked by level/rep/other conditions.`
-                                    );
-                                }
-                            }
-                        }
-                                
-                        questStatuses[quest._id] = {
-                            status: finalStatus,
-                            lockedReason: lockedReason,
-                            questName: questName ?? quest._id
-                        };
-                    }
-                    catch (questError) 
-                    {
-                        this.logger.debug(
-                            `[LunaStatusQuestsServer] Failed to get status for quest ${quest._id}: ${questError}`
-                        );
-                        questStatuses[quest._id] = {
-                            status: QuestStatus.Locked,
-                            questName: quest._id
-                        };
-                    }
-                }
+        if (!profile) 
+        {
+            return "NoPmcData";
+        }
 
-                result[playerName] = questStatuses;
-            }
+        const playerName = profile.Info?.Nickname;
+        if (!playerName) 
+        {
+            return "NoNickname";
+        }
 
-            this.logger.debug(`[LunaStatusQuestsServer] Processed ${Object.keys(result).length} profiles`);
+        if (!this.isProfileVisible(playerName)) 
+        {
+            return "NotVisible";
         }
-        catch (error) 
+
+        return this.privacyService.isShared(profileId, playerName) ? undefined : "OptedOut";
+    }
+
+    /**
+     * Applies the server-side visibleProfiles rule ("*", "*,-Name" or "Name1,Name2") to a nickname.
+     * Exclusions win over inclusions, matching the client's VisibleProfiles option.
+     */
+    private isProfileVisible(playerName: string): boolean 
+    {
+        const entries = this.configService
+            .getConfig()
+            .visibleProfiles.split(",")
+            .map((entry) => entry.trim().toLowerCase())
+            .filter((entry) => entry.length > 0);
+        const name = playerName.toLowerCase();
+
+        if (entries.some((entry) => entry.startsWith("-") && entry.substring(1) === name)) 
+        {
+            return false;
+        }
+
+        const namedInclusions = entries.filter((entry) => !entry.startsWith("-") && entry !== "*");
+        return namedInclusions.length === 0 || namedInclusions.includes(name);
+    }
+
+    /**
+     * Cheap check run before hashing: true when the database holds the same quest objects as when it was last hashed.
+     * Mods that edit a loaded quest in place are not noticed; /admin/rebuild picks those changes up.
+     */
+    private isHashedQuestList(quests: IQuest[]): boolean 
+    {
+        return (
+            quests.length > 0 &&
+            quests.length === this.hashedQuests.length &&
+            quests.every((quest, index) => quest === this.hashedQuests[index])
+        );
+    }
+
+    /**
+     * Hashes everything the prerequisite cache is built from: quest IDs, sides, start and fail conditions.
+     */
+    private getQuestDatabaseHash(quests: IQuest[]): string 
+    {
+        const hash = createHash("sha1");
+        for (const quest of quests) 
+        {
+            hash.update(`${quest._id}:${quest.side}`);
+            hash.update(JSON.stringify(quest?.conditions?.AvailableForStart ?? []));
+            hash.update(JSON.stringify(quest?.conditions?.Fail ?? []));
+        }
+
+        return hash.digest("base64");
+    }
+
+    /**
+     * Fingerprints the profile data statuses are computed from: quest states, level and trader levels.
+     * Timer lock reasons show the remaining time, so profiles waiting on a timer get a new fingerprint every minute.
+     */
+    private getProfileFingerprint(pmcData: IPmcData): string 
+    {
+        const now = Math.floor(Date.now() / 1000);
+        const hash = createHash("sha1");
+        let waitingOnTimer = false;
+
+        hash.update(`${pmcData.Info?.Level ?? 0}|`);
+        const tradersInfo: Record<string, ITraderInfo> = pmcData.TradersInfo ?? {};
+        for (const [traderId, trader] of Object.entries(tradersInfo)) 
+        {
+            hash.update(`${traderId}:${trader?.loyaltyLevel}:${trader?.standing}|`);
+        }
+
+        for (const quest of pmcData.Quests ?? []) 
+        {
+            hash.update(`${quest.qid}:${quest.status}:${quest.availableAfter ?? ""}|`);
+            waitingOnTimer ||= quest.availableAfter > now;
+        }
+
+        if (waitingOnTimer) 
+        {
+            hash.update(`${Math.floor(now / 60)}`);
+        }
+
+        return hash.digest("base64");
+    }
+
+    /**
+     * Returns the cache entry of a profile, replacing it when the profile's quest data changed.
+     * The fingerprint is compared once per prepareCaches() call.
+     */
+    private getProfileCacheEntry(pmcData: IPmcData): ProfileCacheEntry 
+    {
+        const cached = this.profileCache.get(pmcData._id);
+        if (cached?.checkedGeneration === this.cacheGeneration) 
+        {
+            return cached;
+        }
+
+        const fingerprint = this.getProfileFingerprint(pmcData);
+        if (cached?.fingerprint === fingerprint) 
         {
-            this.logger.error(`[LunaStatusQuestsServer] Error reading profiles: ${error}`);
+            cached.checkedGeneration = this.cacheGeneration;
+            return cached;
         }
 
-        return result;
+        const entry: ProfileCacheEntry = {
+            fingerprint,
+            createdAt: Date.now(),
+            checkedGeneration: this.cacheGeneration,
+            questStates: new Map((pmcData.Quests ?? []).map((quest) => [quest.qid, quest])),
+            depthLimitHits: [],
+            lockInfo: new Map(),
+            unreachable: new Map(),
+            statuses: new Map()
+        };
+        this.profileCache.set(pmcData._id, entry);
+        return entry;
     }
 
     /**
-     * Checks if a profile ID should be excluded from processing.
+     * Forgets profiles that were deleted or are no longer visible.
      */
-    private isValidProfile(profileId: string): boolean 
+    private pruneProfileCache(profileIds: Set<string>): void 
     {
-        return !LunaStatusQuestsService.excludedProfilePrefixes.some((prefix) => profileId.startsWith(prefix));
+        for (const profileId of this.profileCache.keys()) 
+        {
+            if (!profileIds.has(profileId)) 
+            {
+                this.profileCache.delete(profileId);
+            }
+        }
     }
 
     /**
-     * Checks if the prerequisite cache needs to be rebuilt.
+     * Same result as QuestHelper.getQuestStatus, without scanning the profile's quest list each time.
      */
-    private isCacheStale(): boolean 
+    private getStatus(entry: ProfileCacheEntry, questId: string): QuestStatus 
     {
-        return (
-            !this.prerequisitesCacheBuilt ||
-            Date.now() - this.questPrerequisitesBuiltAt > LunaStatusQuestsService.cacheTtlMs
-        );
+        return entry.questStates.get(questId)?.status ?? QuestStatus.Locked;
     }
 
-    private buildPrerequisiteCache(): boolean 
+    /**
+     * Whether the prerequisite is in one of the statuses its condition accepts. Usually that is Success, but a quest
+     * can also need its prerequisite failed, or only started.
+     */
+    private isPrerequisiteMet(entry: ProfileCacheEntry, prereq: PrerequisiteInfo): boolean 
+    {
+        return prereq.statuses.includes(this.getStatus(entry, prereq.id));
+    }
+
+    private buildPrerequisiteCache(allQuests: IQuest[]): boolean 
     {
         try 
         {
-            if (!this.questHelper) 
-            {
-                this.logger.warning("[LunaStatusQuestsServer] questHelper not initialized");
-                return false;
-            }
-
-            const allQuests: IQuest[] = this.questHelper.getQuestsFromDb();
-            if (!allQuests || allQuests.length === 0) 
+            if (allQuests.length === 0) 
             {
                 this.logger.warning("[LunaStatusQuestsServer] No quests found in database");
-                this.prerequisitesCacheBuilt = true;
-                this.questPrerequisitesBuiltAt = Date.now();
+                this.questPrerequisites = new Map();
+                this.questExclusions = new Map();
+                this.questSides = new Map();
+                this.kappaQuests = new Set();
+                this.topologicalOrder = new Map();
                 return true;
             }
 
-            const allProfiles = this.profileHelper.getProfiles();
-            const firstProfileId = Object.keys(allProfiles).find((id) => this.isValidProfile(id));
-            const samplePmcData: IPmcData | null = firstProfileId ? allProfiles[firstProfileId].characters?.pmc : null;
-
-            if (!samplePmcData) 
-            {
-                this.logger.warning(
-                    "[LunaStatusQuestsServer] Could not find sample profile. Building cache without quest name resolution."
-                );
-            }
-
+            const questPrerequisites: Map<string, PrerequisiteInfo[]> = new Map();
+            const questExclusions: Map<string, QuestExclusion[]> = new Map();
+            const questSides: Map<string, string> = new Map();
             let questsWithPrereqs = 0;
 
             for (const quest of allQuests) 
@@ -290,13 +1074,10 @@ export class LunaStatusQuestsService
 
                             for (const targetQuestId of targetQuestIds) 
                             {
-                                const resolvedName = samplePmcData
-                                    ? (this.getQuestName(targetQuestId, samplePmcData) ?? targetQuestId)
-                                    : targetQuestId;
-
+                                // Names are resolved per request locale, not frozen here
                                 const prereqInfo: PrerequisiteInfo = {
                                     id: targetQuestId,
-                                    name: resolvedName
+                                    statuses: this.extractStatuses(condition.status, [QuestStatus.Success])
                                 };
 
                                 prerequisites.push(prereqInfo);
@@ -307,24 +1088,201 @@ export class LunaStatusQuestsService
 
                 if (prerequisites.length > 0) 
                 {
-                    this.questPrerequisites.set(quest._id, prerequisites);
+                    questPrerequisites.set(quest._id, prerequisites);
                     questsWithPrereqs++;
                 }
+
+                const exclusions = this.getQuestExclusions(quest);
+                if (exclusions.length > 0) 
+                {
+                    questExclusions.set(quest._id, exclusions);
+                }
+
+                const side = quest.side?.toLowerCase();
+                if (side === "usec" || side === "bear") 
+                {
+                    questSides.set(quest._id, quest.side);
+                }
             }
 
+            this.questPrerequisites = questPrerequisites;
+            this.questExclusions = questExclusions;
+            this.questSides = questSides;
+            this.kappaQuests = this.buildKappaQuests(allQuests);
+            this.topologicalOrder = this.buildTopologicalOrder();
+            this.graphIssues = this.findGraphIssues(new Set(allQuests.map((quest) => quest._id)));
+            this.prerequisiteCacheBuiltAt = Date.now();
+
             this.logger.info(`[LunaStatusQuestsServer] Built prerequisite cache for ${questsWithPrereqs} quests`);
-            this.prerequisitesCacheBuilt = true;
-            this.questPrerequisitesBuiltAt = Date.now();
             return true;
         }
         catch (error) 
         {
             this.logger.error(`[LunaStatusQuestsServer] Error building prerequisite cache: ${error}`);
-            this.prerequisitesCacheBuilt = false;
             return false;
         }
     }
 
+    private buildKappaQuests(allQuests: IQuest[]): Set<string> 
+    {
+        const kappaQuests = new Set<string>();
+        const collectorId = LunaStatusQuestsService.collectorQuestId;
+        const pending = allQuests.some((quest) => quest?._id === collectorId) ? [collectorId] : [];
+
+        while (pending.length > 0) 
+        {
+            const questId = pending.pop();
+            if (kappaQuests.has(questId)) 
+            {
+                continue;
+            }
+
+            kappaQuests.add(questId);
+            pending.push(...(this.questPrerequisites.get(questId) ?? []).map((prereq) => prereq.id));
+        }
+
+        return kappaQuests;
+    }
+
+    /**
+     * Orders every quest that has or is a prerequisite so prerequisites come first (depth-first post-order).
+     * The edge that closes a cycle is skipped, so quests in a cycle still get a position.
+     */
+    private buildTopologicalOrder(): Map<string, number> 
+    {
+        const order = new Map<string, number>();
+        const onPath = new Set<string>();
+
+        const visit = (questId: string): void => 
+        {
+            if (order.has(questId) || onPath.has(questId)) 
+            {
+                return;
+            }
+
+            onPath.add(questId);
+            for (const prereq of this.questPrerequisites.get(questId) ?? []) 
+            {
+                visit(prereq.id);
+            }
+            onPath.delete(questId);
+
+            order.set(questId, order.size);
+        };
+
+        for (const questId of this.questPrerequisites.keys()) 
+        {
+            visit(questId);
+        }
+
+        return order;
+    }
+
+    /**
+     * Finds prerequisite IDs that are not in the quest database and cycles in the prerequisite graph.
+     */
+    private findGraphIssues(knownQuestIds: Set<string>): QuestGraphIssues 
+    {
+        const issues: QuestGraphIssues = { cycles: [], danglingPrerequisites: [] };
+
+        for (const [questId, prerequisites] of this.questPrerequisites) 
+        {
+            for (const prereq of prerequisites) 
+            {
+                if (!knownQuestIds.has(prereq.id)) 
+                {
+                    issues.danglingPrerequisites.push({ questId, prerequisiteId: prereq.id });
+                }
+            }
+        }
+
+        // Depth-first search; reaching a quest that is still on the current path closes a cycle
+        const finished = new Set<string>();
+        const path: string[] = [];
+        const onPath = new Set<string>();
+
+        const visit = (questId: string): void => 
+        {
+            path.push(questId);
+            onPath.add(questId);
+
+            for (const prereq of this.questPrerequisites.get(questId) ?? []) 
+            {
+                if (onPath.has(prereq.id)) 
+                {
+                    issues.cycles.push(path.slice(path.indexOf(prereq.id)));
+                }
+                else if (!finished.has(prereq.id)) 
+                {
+                    visit(prereq.id);
+                }
+            }
+
+            path.pop();
+            onPath.delete(questId);
+            finished.add(questId);
+        };
+
+        for (const questId of this.questPrerequisites.keys()) 
+        {
+            if (!finished.has(questId)) 
+            {
+                visit(questId);
+            }
+        }
+
+        if (issues.cycles.length > 0 || issues.danglingPrerequisites.length > 0) 
+        {
+            this.logger.warning(
+                `[LunaStatusQuestsServer] Prerequisite graph has ${issues.cycles.length} cycle(s) and ` +
+                    `${issues.danglingPrerequisites.length} unknown prerequisite ID(s)`
+            );
+        }
+
+        return issues;
+    }
+
+    /**
+     * Reads the Quest conditions of a quest's fail conditions: quests whose progress makes this one fail.
+     */
+    private getQuestExclusions(quest: IQuest): QuestExclusion[] 
+    {
+        const exclusions: QuestExclusion[] = [];
+
+        for (const condition of quest?.conditions?.Fail ?? []) 
+        {
+            if (condition?.conditionType !== "Quest") 
+            {
+                continue;
+            }
+
+            // A fail condition on Locked would match every quest the profile has not seen yet
+            const statuses = this.extractStatuses(condition.status, []).filter(
+                (status) => status !== QuestStatus.Locked
+            );
+            for (const targetQuestId of this.extractTargetStrings(condition.target)) 
+            {
+                if (statuses.length > 0 && targetQuestId !== quest._id) 
+                {
+                    exclusions.push({ id: targetQuestId, statuses });
+                }
+            }
+        }
+
+        return exclusions;
+    }
+
+    private extractStatuses(status: unknown, fallback: number[]): number[] 
+    {
+        if (!Array.isArray(status)) 
+        {
+            return fallback;
+        }
+
+        const statuses = status.filter((value): value is number => typeof value === "number");
+        return statuses.length > 0 ? statuses : fallback;
+    }
+
     private extractTargetStrings(target: unknown): string[] 
     {
         const results: string[] = [];
@@ -353,104 +1311,238 @@ export class LunaStatusQuestsService
     }
 
     /**
-     * Traverses the quest chain to find the oldest uncompleted prerequisite.
-     * Includes cycle detection and maximum depth limits to prevent infinite recursion.
+     * Memoized per profile. Quests are marked before their prerequisites are checked, so a cycle ends the walk.
      */
-    private findFirstBlockerAndCount(
-        targetQuestId: string,
-        pmcData: IPmcData,
-        currentDepth: number = 1,
-        visitedQuests: Set<string> = new Set()
-    ): BlockerInfo | null 
+    private getUnreachableInfo(questId: string, pmcData: IPmcData, entry: ProfileCacheEntry): UnreachableInfo | null 
     {
-        if (currentDepth > LunaStatusQuestsService.maxQuestDepth) 
+        if (entry.unreachable.has(questId)) 
         {
-            this.logger.warning(
-                `[LunaStatusQuestsServer] Max quest depth (${LunaStatusQuestsService.maxQuestDepth}) exceeded for quest ${targetQuestId.substring(0, 12)}`
-            );
-            return null;
+            return entry.unreachable.get(questId);
         }
 
-        if (visitedQuests.has(targetQuestId)) 
+        entry.unreachable.set(questId, null);
+        const result = this.findUnreachableInfo(questId, pmcData, entry);
+        entry.unreachable.set(questId, result);
+        return result;
+    }
+
+    /**
+     * A locked quest can never be started when it belongs to the other faction, when a quest whose progress fails it
+     * (the other branch of an exclusive pair) got there, or when a prerequisite ended in a status the condition does
+     * not accept. A quest below an unreachable prerequisite is unreachable for the same reason.
+     */
+    private findUnreachableInfo(questId: string, pmcData: IPmcData, entry: ProfileCacheEntry): UnreachableInfo | null 
+    {
+        if (this.getStatus(entry, questId) !== QuestStatus.Locked) 
         {
-            this.logger.warning(
-                `[LunaStatusQuestsServer] Circular dependency detected for quest ${targetQuestId.substring(0, 12)}`
-            );
             return null;
         }
 
-        visitedQuests.add(targetQuestId);
+        const side = this.questSides.get(questId);
+        const profileSide = pmcData.Info?.Side;
+        if (side && typeof profileSide === "string" && side.toLowerCase() !== profileSide.toLowerCase()) 
+        {
+            return { type: "Faction", side };
+        }
+
+        for (const exclusion of this.questExclusions.get(questId) ?? []) 
+        {
+            if (exclusion.statuses.includes(this.getStatus(entry, exclusion.id))) 
+            {
+                return { type: "ExclusiveQuest", questId: exclusion.id };
+            }
+        }
+
+        for (const prereq of this.questPrerequisites.get(questId) ?? []) 
+        {
+            const status = this.getStatus(entry, prereq.id);
+            if (LunaStatusQuestsService.finalStatuses.includes(status) && !prereq.statuses.includes(status)) 
+            {
+                return { type: "FailedPrerequisite", questId: prereq.id };
+            }
+
+            const prereqUnreachable = this.getUnreachableInfo(prereq.id, pmcData, entry);
+            if (prereqUnreachable) 
+            {
+                return prereqUnreachable;
+            }
+        }
+
+        return null;
+    }
 
-        const prerequisites = this.questPrerequisites.get(targetQuestId);
+    private getUnreachableReason(info: UnreachableInfo, locale: string): UnreachableReason 
+    {
+        const questName = info.questId
+            ? (this.questLocaleService.getQuestName(info.questId, locale) ?? info.questId)
+            : undefined;
 
-        if (!prerequisites || prerequisites.length === 0) 
+        let message: string;
+        switch (info.type) 
         {
-            const blockerName = this.getQuestName(targetQuestId, pmcData) ?? targetQuestId;
-            return {
-                firstBlockerId: targetQuestId,
-                firstBlockerName: blockerName,
-                questsBehind: currentDepth
-            };
+            case "Faction":
+                message = this.questLocaleService.formatPhrase("unreachableFaction", locale, {
+                    side: info.side.toUpperCase()
+                });
+                break;
+            case "ExclusiveQuest":
+                message = this.questLocaleService.formatPhrase("unreachableExclusive", locale, { name: questName });
+                break;
+            default:
+                message = this.questLocaleService.formatPhrase("unreachablePrerequisite", locale, { name: questName });
+                break;
         }
 
-        let firstBlocker: BlockerInfo | null = null;
+        return { type: info.type, message, questId: info.questId, questName, side: info.side };
+    }
 
-        for (const prereq of prerequisites) 
+    /**
+     * For every quest in topological order, finds the deepest chain of incomplete prerequisites below it:
+     * the quest at the bottom of that chain and how many steps up it is. A quest without prerequisites is its own
+     * blocker; a quest whose prerequisites are all complete has none. Each quest is visited once per profile.
+     */
+    private getChainBlockers(entry: ProfileCacheEntry): Map<string, BlockerInfo | null> 
+    {
+        if (entry.chainBlockers) 
         {
-            const status = this.questHelper.getQuestStatus(pmcData, prereq.id);
+            return entry.chainBlockers;
+        }
+
+        const maxQuestDepth = this.configService.getConfig().maxQuestDepth;
+        const chainBlockers = new Map<string, BlockerInfo | null>();
+        const depthLimitHits: string[] = [];
 
-            if (status !== QuestStatus.Success) 
+        for (const [questId, position] of this.topologicalOrder) 
+        {
+            const prerequisites = this.questPrerequisites.get(questId);
+            if (!prerequisites || prerequisites.length === 0) 
             {
-                const branchVisited = new Set(visitedQuests);
+                chainBlockers.set(questId, { firstBlockerId: questId, questsBehind: 0 });
+                continue;
+            }
 
-                const chainBlocker = this.findFirstBlockerAndCount(prereq.id, pmcData, currentDepth + 1, branchVisited);
+            let firstBlocker: BlockerInfo | null = null;
+            for (const prereq of prerequisites) 
+            {
+                // A prerequisite ordered after the quest is the edge closing a cycle
+                const closesCycle = this.topologicalOrder.get(prereq.id) > position;
+                if (closesCycle || this.isPrerequisiteMet(entry, prereq)) 
+                {
+                    continue;
+                }
 
-                if (chainBlocker) 
+                const chainBlocker = chainBlockers.get(prereq.id);
+                if (chainBlocker && (!firstBlocker || chainBlocker.questsBehind + 1 > firstBlocker.questsBehind)) 
                 {
-                    if (!firstBlocker || chainBlocker.questsBehind > firstBlocker.questsBehind) 
-                    {
-                        firstBlocker = chainBlocker;
-                    }
+                    firstBlocker = {
+                        firstBlockerId: chainBlocker.firstBlockerId,
+                        questsBehind: chainBlocker.questsBehind + 1
+                    };
                 }
             }
+
+            if (firstBlocker && firstBlocker.questsBehind > maxQuestDepth) 
+            {
+                depthLimitHits.push(questId);
+                firstBlocker = null;
+            }
+
+            chainBlockers.set(questId, firstBlocker);
+        }
+
+        if (depthLimitHits.length > 0) 
+        {
+            this.logger.warning(
+                `[LunaStatusQuestsServer] Max quest depth (${maxQuestDepth}) exceeded for ${depthLimitHits.length} quest(s)`
+            );
         }
 
-        return firstBlocker ?? null;
+        entry.chainBlockers = chainBlockers;
+        entry.depthLimitHits = depthLimitHits;
+        return chainBlockers;
     }
 
     /**
      * Determines the reason a quest is locked.
-     * Uses memoization to avoid redundant calculations.
      * If locked by quest, finds the earliest blocking quest and chain depth.
+     * Callers outside the status routes must call prepareCaches() first.
+     */
+    public getLockedReason(questId: string, pmcData: IPmcData, locale: string): string | undefined 
+    {
+        return this.formatLockedReason(questId, this.getProfileCacheEntry(pmcData), locale);
+    }
+
+    /**
+     * The blocker behind getLockedReason: the oldest uncompleted quest down the chains of an incomplete prerequisite,
+     * and how many quests lie between it and the prerequisite. Undefined when no such blocker was found.
      */
-    private getLockedReason(questId: string, pmcData: IPmcData): string | undefined 
+    public getQuestBlocker(
+        questId: string,
+        pmcData: IPmcData
+    ): { firstBlockerId: string; questsBehind: number } | undefined 
+    {
+        return this.getQuestLockInfo(questId, this.getProfileCacheEntry(pmcData))?.blocker;
+    }
+
+    private formatLockedReason(questId: string, entry: ProfileCacheEntry, locale: string): string | undefined 
     {
-        const cacheKey = `${pmcData._id}_${questId}`;
+        const lockInfo = this.getQuestLockInfo(questId, entry);
 
-        if (this.lockedReasonCache.has(cacheKey)) 
+        if (!lockInfo) 
         {
-            return this.lockedReasonCache.get(cacheKey);
+            return undefined;
         }
 
-        const immediatePrerequisites = this.questPrerequisites.get(questId);
+        let result: string;
 
-        if (!immediatePrerequisites || immediatePrerequisites.length === 0) 
+        if (lockInfo.blocker) 
         {
-            this.lockedReasonCache.set(cacheKey, undefined);
-            return undefined;
+            const { firstBlockerId, questsBehind } = lockInfo.blocker;
+            const firstBlockerName = this.questLocaleService.getQuestName(firstBlockerId, locale) ?? firstBlockerId;
+
+            result =
+                questsBehind > 1
+                    ? this.questLocaleService.formatPhrase("questsBehind", locale, {
+                        name: firstBlockerName,
+                        count: questsBehind
+                    })
+                    : firstBlockerName;
+            this.logger.debug(`[LunaStatusQuestsServer] Locked reason for ${questId.substring(0, 12)}: ${result}`);
+        }
+        else 
+        {
+            // Fallback: if we have incomplete prerequisites but couldn't find a blocker,
+            // list the incomplete prerequisites
+            result = lockInfo.incompletePrerequisites
+                .map((prereq) => this.questLocaleService.getQuestName(prereq.id, locale) ?? prereq.id)
+                .join(", ");
+        }
+
+        return result;
+    }
+
+    /**
+     * Finds the incomplete prerequisites of a quest and the blocker furthest down their chains.
+     * Memoized in the profile's cache entry.
+     * Returns undefined when the quest has no incomplete prerequisites.
+     */
+    private getQuestLockInfo(questId: string, entry: ProfileCacheEntry): QuestLockInfo | undefined 
+    {
+        if (entry.lockInfo.has(questId)) 
+        {
+            return entry.lockInfo.get(questId);
         }
 
+        const immediatePrerequisites = this.questPrerequisites.get(questId) ?? [];
+        const incompletePrerequisites: PrerequisiteInfo[] = [];
         let firstBlockerInfo: BlockerInfo | null = null;
-        let hasIncompletePrerequisites = false;
 
         for (const immediatePrereq of immediatePrerequisites) 
         {
-            const status = this.questHelper.getQuestStatus(pmcData, immediatePrereq.id);
-
-            if (status !== QuestStatus.Success) 
+            if (!this.isPrerequisiteMet(entry, immediatePrereq)) 
             {
-                hasIncompletePrerequisites = true;
-                const chainBlocker = this.findFirstBlockerAndCount(immediatePrereq.id, pmcData, 0, new Set());
+                incompletePrerequisites.push(immediatePrereq);
+                const chainBlocker = this.getChainBlockers(entry).get(immediatePrereq.id);
 
                 if (chainBlocker) 
                 {
@@ -462,79 +1554,206 @@ export class LunaStatusQuestsService
             }
         }
 
-        let result: string | undefined;
+        // Only report lock info if there are actually incomplete prerequisites
+        const result: QuestLockInfo | undefined =
+            incompletePrerequisites.length > 0
+                ? {
+                    prerequisiteCount: immediatePrerequisites.length,
+                    incompletePrerequisites,
+                    blocker: firstBlockerInfo ?? undefined
+                }
+                : undefined;
 
-        // Only return a locked reason if there are actually incomplete prerequisites
-        if (!hasIncompletePrerequisites) 
-        {
-            // All prerequisites are completed, so there's no quest-based reason for locking
-            this.lockedReasonCache.set(cacheKey, undefined);
-            return undefined;
-        }
+        entry.lockInfo.set(questId, result);
 
-        if (firstBlockerInfo) 
-        {
-            const countDisplay =
-                firstBlockerInfo.questsBehind > 1 ? ` (${firstBlockerInfo.questsBehind} Quests Behind)` : "";
+        return result;
+    }
 
-            result = `${firstBlockerInfo.firstBlockerName}${countDisplay}`;
-            this.logger.debug(`[LunaStatusQuestsServer] Locked reason for ${questId.substring(0, 12)}: ${result}`);
-        }
-        else 
+    /**
+     * Lists every unmet start condition of a quest: prerequisite quests, player level, trader loyalty and
+     * standing, and availability timers.
+     */
+    private getLockReasons(
+        quest: IQuest,
+        pmcData: IPmcData,
+        entry: ProfileCacheEntry,
+        locale: string
+    ): LockReason[] 
+    {
+        const reasons: LockReason[] = [];
+
+        const lockInfo = this.getQuestLockInfo(quest._id, entry);
+        if (lockInfo) 
         {
-            // Fallback: if we have incomplete prerequisites but couldn't find a blocker,
-            // list the incomplete prerequisites
-            const incompletePrereqs = immediatePrerequisites.filter((prereq) => 
-            {
-                const status = this.questHelper.getQuestStatus(pmcData, prereq.id);
-                return status !== QuestStatus.Success;
+            const firstBlockerId = lockInfo.blocker?.firstBlockerId;
+            reasons.push({
+                type: "Quest",
+                message: this.formatLockedReason(quest._id, entry, locale),
+                required: lockInfo.prerequisiteCount,
+                current: lockInfo.prerequisiteCount - lockInfo.incompletePrerequisites.length,
+                questIds: lockInfo.incompletePrerequisites.map((prereq) => prereq.id),
+                firstBlockerId,
+                firstBlockerName: firstBlockerId
+                    ? (this.questLocaleService.getQuestName(firstBlockerId, locale) ?? firstBlockerId)
+                    : undefined,
+                questsBehind: lockInfo.blocker?.questsBehind
             });
-            
-            if (incompletePrereqs.length > 0) 
-            {
-                const prerequisiteNames = incompletePrereqs.map((prereq) => prereq.name);
-                result = prerequisiteNames.join(", ");
-            }
-            else 
+        }
+
+        const conditions = quest?.conditions?.AvailableForStart;
+        if (Array.isArray(conditions)) 
+        {
+            for (const condition of conditions) 
             {
-                // This shouldn't happen, but if it does, return undefined
-                result = undefined;
+                const reason = this.getConditionLockReason(condition, pmcData, locale);
+                if (reason) 
+                {
+                    reasons.push(reason);
+                }
             }
         }
 
-        this.lockedReasonCache.set(cacheKey, result);
+        const timerReason = this.getTimerLockReason(quest._id, entry, locale);
+        if (timerReason) 
+        {
+            reasons.push(timerReason);
+        }
 
-        return result;
+        return reasons;
     }
 
     /**
-     * Retrieves the localized name of a quest.
-     * Falls back to the internal QuestName if localization fails.
+     * Evaluates a single level or trader start condition against the profile.
+     * Returns undefined when the condition is met or is not one of those types.
      */
-    private getQuestName(questId: string, pmcData: IPmcData): string | undefined 
+    private getConditionLockReason(
+        condition: IQuestCondition,
+        pmcData: IPmcData,
+        locale: string
+    ): LockReason | undefined 
     {
-        try 
+        const required = Number(condition?.value);
+        if (Number.isNaN(required)) 
         {
-            const localizedName = this.questHelper.getQuestNameFromLocale(questId);
+            return undefined;
+        }
 
-            const invalidNames = [questId, `${questId} Name`, "name", "Name", ""];
-            if (localizedName && !invalidNames.includes(localizedName) && localizedName.length > 0) 
+        switch (condition.conditionType) 
+        {
+            case "Level": 
             {
-                return localizedName;
+                const current = pmcData.Info?.Level ?? 0;
+                if (this.compareValues(current, condition.compareMethod, required)) 
+                {
+                    return undefined;
+                }
+
+                return {
+                    type: "Level",
+                    message: this.questLocaleService.formatPhrase("level", locale, { required, current }),
+                    required,
+                    current
+                };
             }
+            case "TraderLoyalty": 
+            {
+                const traderId = this.extractTargetStrings(condition.target)[0];
+                const current = pmcData.TradersInfo?.[traderId]?.loyaltyLevel ?? 1;
+                if (!traderId || this.compareValues(current, condition.compareMethod, required)) 
+                {
+                    return undefined;
+                }
 
-            const quest = this.questHelper.getQuestFromDb(questId, pmcData);
-            if (quest?.QuestName && quest.QuestName !== "name" && quest.QuestName !== "Name") 
+                const traderName = this.questLocaleService.getTraderName(traderId, locale);
+                return {
+                    type: "TraderLoyalty",
+                    message: this.questLocaleService.formatPhrase("traderLoyalty", locale, {
+                        trader: traderName,
+                        required,
+                        current
+                    }),
+                    required,
+                    current,
+                    traderId,
+                    traderName
+                };
+            }
+            case "TraderStanding": 
             {
-                return quest.QuestName;
+                const traderId = this.extractTargetStrings(condition.target)[0];
+                const current = pmcData.TradersInfo?.[traderId]?.standing ?? 0;
+                if (!traderId || this.compareValues(current, condition.compareMethod, required)) 
+                {
+                    return undefined;
+                }
+
+                const traderName = this.questLocaleService.getTraderName(traderId, locale);
+                return {
+                    type: "TraderStanding",
+                    message: this.questLocaleService.formatPhrase("traderStanding", locale, {
+                        trader: traderName,
+                        required: required.toFixed(2),
+                        current: current.toFixed(2)
+                    }),
+                    required,
+                    current,
+                    traderId,
+                    traderName
+                };
             }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Reports the waiting time of a quest whose prerequisites are done but which only unlocks after a delay.
+     */
+    private getTimerLockReason(questId: string, entry: ProfileCacheEntry, locale: string): LockReason | undefined 
+    {
+        const availableAt = entry.questStates.get(questId)?.availableAfter;
+        const now = Math.floor(Date.now() / 1000);
 
+        if (!availableAt || availableAt <= now) 
+        {
             return undefined;
         }
-        catch (error) 
+
+        return {
+            type: "Timer",
+            message: this.questLocaleService.formatPhrase("timer", locale, {
+                duration: this.formatDuration(availableAt - now)
+            }),
+            required: availableAt,
+            current: now,
+            availableAt
+        };
+    }
+
+    private compareValues(current: number, compareMethod: string | undefined, required: number): boolean 
+    {
+        switch (compareMethod) 
         {
-            this.logger.error(`[LunaStatusQuestsServer] Error getting quest name for ${questId}: ${error}`);
-            return undefined;
+            case "<=":
+                return current <= required;
+            case "<":
+                return current < required;
+            case ">":
+                return current > required;
+            case "=":
+            case "==":
+                return current === required;
+            default:
+                return current >= required;
         }
     }
+
+    private formatDuration(totalSeconds: number): string 
+    {
+        // Round the whole duration up first, so 3599 seconds reads "1h 0m" rather than "60m"
+        const totalMinutes = Math.ceil(totalSeconds / 60);
+        const hours = Math.floor(totalMinutes / 60);
+        const minutes = totalMinutes % 60;
+        return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+    }
 }
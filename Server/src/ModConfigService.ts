@@ -0,0 +1,563 @@
+import fs from "node:fs";
+import path from "node:path";
+import { inject, injectable } from "tsyringe";
+import { parse, printParseErrorCode, type ParseError } from "jsonc-parser";
+import type { ILogger } from "@spt/models/spt/utils/ILogger";
+import type {
+    AdminConfig,
+    HistoryConfig,
+    LogLevel,
+    LunaStatusQuestsConfig,
+    PrivacyConfig,
+    ResponseFieldsConfig,
+    WebhookFormat,
+    WebhooksConfig,
+    WebhookTargetConfig
+} from "./models/LunaStatusQuestsConfig";
+import type { WebhookEventType } from "./models/QuestStatusModels";
+
+/**
+ * Loads and validates config/config.jsonc. Invalid or missing values are reported and replaced by defaults,
+ * so the rest of the mod can always rely on a complete config.
+ */
+@injectable()
+export class ModConfigService 
+{
+    private config: LunaStatusQuestsConfig = ModConfigService.getDefaults();
+
+    private static readonly configPath = path.join(__dirname, "..", "config", "config.jsonc");
+    private static readonly logLevels: LogLevel[] = ["error", "warning", "info", "debug"];
+    private static readonly webhookFormats: WebhookFormat[] = ["json", "discord"];
+    private static readonly webhookEvents: WebhookEventType[] = ["QuestCompleted", "QuestUnlocked", "KappaCompleted"];
+    // Options older config files may still contain, with why they no longer apply
+    private static readonly removedOptions: Record<string, string> = {
+        prerequisiteCacheTtlSeconds: "the prerequisite cache is now rebuilt when the quest database changes"
+    };
+
+    constructor(@inject("WinstonLogger") private logger: ILogger) 
+    {}
+
+    public getConfig(): LunaStatusQuestsConfig 
+    {
+        return this.config;
+    }
+
+    /**
+     * Reads the config file from disk. Called once from preSptLoad; the offline CLI passes its own path.
+     */
+    public load(configPath = ModConfigService.configPath): void 
+    {
+        const defaults = ModConfigService.getDefaults();
+
+        if (!fs.existsSync(configPath)) 
+        {
+            this.logger.warning(
+                `[LunaStatusQuestsServer] Config file not found at ${configPath}, using defaults`
+            );
+            this.config = defaults;
+            return;
+        }
+
+        let raw: unknown;
+        try 
+        {
+            const errors: ParseError[] = [];
+            raw = parse(fs.readFileSync(configPath, "utf-8"), errors, { allowTrailingComma: true });
+
+            if (errors.length > 0) 
+            {
+                const details = errors.map((error) => `${printParseErrorCode(error.error)} at offset ${error.offset}`);
+                this.logger.warning(`[LunaStatusQuestsServer] Config file has syntax errors: ${details.join(", ")}`);
+            }
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Could not read config file, using defaults: ${error}`);
+            this.config = defaults;
+            return;
+        }
+
+        if (!this.isObject(raw)) 
+        {
+            this.logger.warning("[LunaStatusQuestsServer] Config file must contain a JSON object, using defaults");
+            this.config = defaults;
+            return;
+        }
+
+        for (const key of Object.keys(raw)) 
+        {
+            if (key in ModConfigService.removedOptions) 
+            {
+                const reason = ModConfigService.removedOptions[key];
+                this.logger.info(`[LunaStatusQuestsServer] Config option "${key}" is no longer used: ${reason}`);
+            }
+            else if (!(key in defaults)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Unknown config option "${key}" is ignored`);
+            }
+        }
+
+        this.config = {
+            excludedProfileIds: this.readStringArray(raw, "excludedProfileIds", defaults.excludedProfileIds),
+            excludedProfilePrefixes: this.readStringArray(
+                raw,
+                "excludedProfilePrefixes",
+                defaults.excludedProfilePrefixes
+            ),
+            visibleProfiles: this.readString(raw, "visibleProfiles", defaults.visibleProfiles),
+            maxQuestDepth: this.readNumber(raw, "maxQuestDepth", defaults.maxQuestDepth, 1, true),
+            questsBehindFormat: this.readQuestsBehindFormat(raw, defaults.questsBehindFormat),
+            response: this.readResponseFields(raw, defaults.response),
+            excludeUnreachableFromCompletion: this.readBoolean(
+                raw,
+                "excludeUnreachableFromCompletion",
+                defaults.excludeUnreachableFromCompletion
+            ),
+            history: this.readHistory(raw, defaults.history),
+            privacy: this.readPrivacy(raw, defaults.privacy),
+            webhooks: this.readWebhooks(raw, defaults.webhooks),
+            admin: this.readAdmin(raw, defaults.admin),
+            logLevel: this.readLogLevel(raw, defaults.logLevel)
+        };
+
+        this.logger.info("[LunaStatusQuestsServer] Config loaded");
+    }
+
+    private static getDefaults(): LunaStatusQuestsConfig 
+    {
+        return {
+            excludedProfileIds: [],
+            // Exclude system/bot profiles that don't represent real players
+            excludedProfilePrefixes: ["headless_", "bot_"],
+            visibleProfiles: "*",
+            // Guards against absurdly deep prerequisite chains in modded quest databases
+            maxQuestDepth: 500,
+            questsBehindFormat: "{name} ({count} Quests Behind)",
+            response: {
+                includeQuestNames: true,
+                includeLockedReason: true,
+                includeLockReasons: true
+            },
+            excludeUnreachableFromCompletion: true,
+            history: {
+                enabled: true,
+                // Roughly a few months of play for a small group; older entries are compacted away first
+                maxEntries: 10000,
+                retentionDays: 365
+            },
+            privacy: {
+                optedOutProfiles: [],
+                allowOptOut: true,
+                friendsOnly: false,
+                friends: {}
+            },
+            webhooks: {
+                enabled: false,
+                batchDelaySeconds: 10,
+                maxRetries: 5,
+                retryDelaySeconds: 2,
+                targets: []
+            },
+            admin: {
+                profiles: [],
+                allowEveryone: false
+            },
+            logLevel: "info"
+        };
+    }
+
+    private readStringArray(raw: Record<string, unknown>, key: string, fallback: string[], name = key): string[] 
+    {
+        const value = raw[key];
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) 
+        {
+            this.warnInvalid(name, "an array of strings", fallback);
+            return fallback;
+        }
+
+        return value;
+    }
+
+    private readString(raw: Record<string, unknown>, key: string, fallback: string): string 
+    {
+        const value = raw[key];
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (typeof value !== "string" || value.trim().length === 0) 
+        {
+            this.warnInvalid(key, "a non-empty string", fallback);
+            return fallback;
+        }
+
+        return value;
+    }
+
+    private readBoolean(raw: Record<string, unknown>, key: string, fallback: boolean, name = key): boolean 
+    {
+        const value = raw[key];
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (typeof value !== "boolean") 
+        {
+            this.warnInvalid(name, "true or false", fallback);
+            return fallback;
+        }
+
+        return value;
+    }
+
+    private readNumber(
+        raw: Record<string, unknown>,
+        key: string,
+        fallback: number,
+        minimum: number,
+        integer = false,
+        name = key
+    ): number 
+    {
+        const value = raw[key];
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        const isValid =
+            typeof value === "number" && Number.isFinite(value) && value >= minimum && (!integer || Number.isInteger(value));
+
+        if (!isValid) 
+        {
+            this.warnInvalid(name, `${integer ? "an integer" : "a number"} of at least ${minimum}`, fallback);
+            return fallback;
+        }
+
+        return value;
+    }
+
+    private readQuestsBehindFormat(raw: Record<string, unknown>, fallback: string): string 
+    {
+        const value = this.readString(raw, "questsBehindFormat", fallback);
+        if (!value.includes("{name}")) 
+        {
+            this.warnInvalid("questsBehindFormat", "a string containing {name}", fallback);
+            return fallback;
+        }
+
+        return value;
+    }
+
+    private readResponseFields(raw: Record<string, unknown>, fallback: ResponseFieldsConfig): ResponseFieldsConfig 
+    {
+        const value = raw.response;
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!this.isObject(value)) 
+        {
+            this.warnInvalid("response", "an object", fallback);
+            return fallback;
+        }
+
+        const result = { ...fallback };
+        for (const [key, field] of Object.entries(value)) 
+        {
+            if (!(key in fallback)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Unknown config option "response.${key}" is ignored`);
+            }
+            else if (typeof field !== "boolean") 
+            {
+                this.warnInvalid(`response.${key}`, "true or false", fallback[key]);
+            }
+            else 
+            {
+                result[key] = field;
+            }
+        }
+
+        return result;
+    }
+
+    private readHistory(raw: Record<string, unknown>, fallback: HistoryConfig): HistoryConfig 
+    {
+        const value = raw.history;
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!this.isObject(value)) 
+        {
+            this.warnInvalid("history", "an object", fallback);
+            return fallback;
+        }
+
+        for (const key of Object.keys(value)) 
+        {
+            if (!(key in fallback)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Unknown config option "history.${key}" is ignored`);
+            }
+        }
+
+        return {
+            enabled: this.readBoolean(value, "enabled", fallback.enabled, "history.enabled"),
+            maxEntries: this.readNumber(value, "maxEntries", fallback.maxEntries, 1, true, "history.maxEntries"),
+            retentionDays: this.readNumber(
+                value,
+                "retentionDays",
+                fallback.retentionDays,
+                0,
+                false,
+                "history.retentionDays"
+            )
+        };
+    }
+
+    private readPrivacy(raw: Record<string, unknown>, fallback: PrivacyConfig): PrivacyConfig 
+    {
+        const value = raw.privacy;
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!this.isObject(value)) 
+        {
+            this.warnInvalid("privacy", "an object", fallback);
+            return fallback;
+        }
+
+        for (const key of Object.keys(value)) 
+        {
+            if (!(key in fallback)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Unknown config option "privacy.${key}" is ignored`);
+            }
+        }
+
+        return {
+            optedOutProfiles: this.readStringArray(
+                value,
+                "optedOutProfiles",
+                fallback.optedOutProfiles,
+                "privacy.optedOutProfiles"
+            ),
+            allowOptOut: this.readBoolean(value, "allowOptOut", fallback.allowOptOut, "privacy.allowOptOut"),
+            friendsOnly: this.readBoolean(value, "friendsOnly", fallback.friendsOnly, "privacy.friendsOnly"),
+            friends: this.readFriends(value.friends, fallback.friends)
+        };
+    }
+
+    private readFriends(value: unknown, fallback: Record<string, string[]>): Record<string, string[]> 
+    {
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        const isValid =
+            this.isObject(value) &&
+            Object.values(value).every(
+                (names) => Array.isArray(names) && names.every((name) => typeof name === "string")
+            );
+
+        if (!isValid) 
+        {
+            this.warnInvalid("privacy.friends", "an object of nickname arrays", fallback);
+            return fallback;
+        }
+
+        return value as Record<string, string[]>;
+    }
+
+    private readWebhooks(raw: Record<string, unknown>, fallback: WebhooksConfig): WebhooksConfig 
+    {
+        const value = raw.webhooks;
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!this.isObject(value)) 
+        {
+            this.warnInvalid("webhooks", "an object", fallback);
+            return fallback;
+        }
+
+        for (const key of Object.keys(value)) 
+        {
+            if (!(key in fallback)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Unknown config option "webhooks.${key}" is ignored`);
+            }
+        }
+
+        return {
+            enabled: this.readBoolean(value, "enabled", fallback.enabled, "webhooks.enabled"),
+            batchDelaySeconds: this.readNumber(
+                value,
+                "batchDelaySeconds",
+                fallback.batchDelaySeconds,
+                0,
+                false,
+                "webhooks.batchDelaySeconds"
+            ),
+            maxRetries: this.readNumber(value, "maxRetries", fallback.maxRetries, 0, true, "webhooks.maxRetries"),
+            retryDelaySeconds: this.readNumber(
+                value,
+                "retryDelaySeconds",
+                fallback.retryDelaySeconds,
+                0,
+                false,
+                "webhooks.retryDelaySeconds"
+            ),
+            targets: this.readWebhookTargets(value.targets, fallback.targets)
+        };
+    }
+
+    /**
+     * Invalid targets are skipped on their own, so one typo does not silence the others.
+     */
+    private readWebhookTargets(value: unknown, fallback: WebhookTargetConfig[]): WebhookTargetConfig[] 
+    {
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!Array.isArray(value)) 
+        {
+            this.warnInvalid("webhooks.targets", "an array", fallback);
+            return fallback;
+        }
+
+        const targets: WebhookTargetConfig[] = [];
+        value.forEach((target, index) => 
+        {
+            const name = `webhooks.targets[${index}]`;
+            if (!this.isObject(target)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Config option "${name}" must be an object; skipped`);
+                return;
+            }
+
+            if (!this.isHttpUrl(target.url)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Config option "${name}.url" must be an http(s) URL; skipped`);
+                return;
+            }
+
+            const format = ModConfigService.webhookFormats.find((known) => known === (target.format ?? "json"));
+            if (!format) 
+            {
+                const expected = ModConfigService.webhookFormats.join(" or ");
+                this.logger.warning(`[LunaStatusQuestsServer] Config option "${name}.format" must be ${expected}; skipped`);
+                return;
+            }
+
+            const knownEvents: string[] = ModConfigService.webhookEvents;
+            const events = this.readStringArray(target, "events", knownEvents, `${name}.events`);
+            const unknownEvents = events.filter((event) => !knownEvents.includes(event));
+            if (unknownEvents.length > 0) 
+            {
+                this.logger.warning(
+                    `[LunaStatusQuestsServer] Unknown events in "${name}.events" are ignored: ${unknownEvents.join(", ")}`
+                );
+            }
+
+            targets.push({
+                url: target.url,
+                format,
+                events: events.filter((event): event is WebhookEventType => !unknownEvents.includes(event)),
+                profiles: this.readStringArray(target, "profiles", [], `${name}.profiles`)
+            });
+        });
+
+        return targets;
+    }
+
+    private isHttpUrl(value: unknown): value is string 
+    {
+        try 
+        {
+            // Plain http is allowed, so a local listener can be used for testing
+            const protocol = typeof value === "string" ? new URL(value).protocol : undefined;
+            return protocol === "http:" || protocol === "https:";
+        }
+        catch 
+        {
+            return false;
+        }
+    }
+
+    private readAdmin(raw: Record<string, unknown>, fallback: AdminConfig): AdminConfig 
+    {
+        const value = raw.admin;
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        if (!this.isObject(value)) 
+        {
+            this.warnInvalid("admin", "an object", fallback);
+            return fallback;
+        }
+
+        for (const key of Object.keys(value)) 
+        {
+            if (!(key in fallback)) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Unknown config option "admin.${key}" is ignored`);
+            }
+        }
+
+        return {
+            profiles: this.readStringArray(value, "profiles", fallback.profiles, "admin.profiles"),
+            allowEveryone: this.readBoolean(value, "allowEveryone", fallback.allowEveryone, "admin.allowEveryone")
+        };
+    }
+
+    private readLogLevel(raw: Record<string, unknown>, fallback: LogLevel): LogLevel 
+    {
+        const value = raw.logLevel;
+        if (value === undefined) 
+        {
+            return fallback;
+        }
+
+        const logLevel = ModConfigService.logLevels.find((known) => known === value);
+        if (!logLevel) 
+        {
+            this.warnInvalid("logLevel", `one of ${ModConfigService.logLevels.join(", ")}`, fallback);
+            return fallback;
+        }
+
+        return logLevel;
+    }
+
+    private isObject(value: unknown): value is Record<string, unknown> 
+    {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    private warnInvalid(key: string, expected: string, fallback: unknown): void 
+    {
+        this.logger.warning(
+            `[LunaStatusQuestsServer] Config option "${key}" must be ${expected}; using default ${JSON.stringify(fallback)}`
+        );
+    }
+}
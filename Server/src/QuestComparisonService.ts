@@ -0,0 +1,204 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { unreachableQuestStatus } from "./models/QuestStatusModels";
+import type {
+    ComparisonQuestEntry,
+    ComparisonTraderGroup,
+    PlayerProfile,
+    ProfileComparison,
+    ProfileComparisonRequest,
+    ProfileComparisonResponse,
+    ProfileQuestStatuses
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+/**
+ * Compares two profiles quest by quest, so a player who fell behind a friend sees what to do to share quests again.
+ */
+@injectable()
+export class QuestComparisonService 
+{
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns, in both directions, the quests one profile has started or completed that the other has not,
+     * grouped by trader and ordered along the prerequisite chains.
+     */
+    public async handleCompare(request: ProfileComparisonRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const profiles = request?.profiles;
+            if (
+                !Array.isArray(profiles) ||
+                profiles.length !== 2 ||
+                profiles.some((name) => typeof name !== "string") ||
+                profiles[0] === profiles[1]
+            ) 
+            {
+                return this.questStatusService.errorResponse(
+                    "InvalidRequest",
+                    "Request body must contain a profiles array with two different nicknames"
+                );
+            }
+
+            const players = this.questStatusService.resolveRequestedPlayers(profiles, sessionId);
+            if (typeof players === "string") 
+            {
+                return players;
+            }
+
+            this.questStatusService.prepareCaches();
+
+            const locale = this.questLocaleService.resolveLocale(request.locale, sessionId);
+            const [first, second] = profiles.map((name) => players.find((player) => player.playerName === name));
+            const statuses = this.questStatusService.getQuestStatuses(undefined, locale, [first, second]);
+            const quests: IQuest[] = this.questHelper.getQuestsFromDb();
+            const chainDepths = new Map<string, number>();
+
+            const response: ProfileComparisonResponse = {
+                profiles: [first.playerName, second.playerName],
+                comparisons: [
+                    this.compare(first, second, statuses, quests, chainDepths, locale),
+                    this.compare(second, first, statuses, quests, chainDepths, locale)
+                ]
+            };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleCompare: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compare profiles");
+        }
+    }
+
+    /**
+     * Lists the quests where `ahead` got further than `behind`. Quests `behind` can never start are left out,
+     * there is no catching up on them.
+     */
+    private compare(
+        ahead: PlayerProfile,
+        behind: PlayerProfile,
+        statuses: { [playerName: string]: ProfileQuestStatuses },
+        quests: IQuest[],
+        chainDepths: Map<string, number>,
+        locale: string
+    ): ProfileComparison 
+    {
+        const groups = new Map<string, ComparisonTraderGroup>();
+        let questsUntilInSync = 0;
+
+        for (const quest of quests) 
+        {
+            const aheadStatus = statuses[ahead.playerName]?.[quest._id]?.status;
+            const behindStatus = statuses[behind.playerName]?.[quest._id]?.status;
+            if (
+                aheadStatus === undefined ||
+                behindStatus === undefined ||
+                behindStatus === unreachableQuestStatus ||
+                this.getProgress(aheadStatus) <= this.getProgress(behindStatus)
+            ) 
+            {
+                continue;
+            }
+
+            const entry: ComparisonQuestEntry = {
+                questId: quest._id,
+                questName: this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id,
+                chainDepth: this.getChainDepth(quest._id, chainDepths, new Set()),
+                aheadStatus,
+                behindStatus
+            };
+
+            if (behindStatus === QuestStatus.Locked || behindStatus === QuestStatus.AvailableAfter) 
+            {
+                entry.lockedReason = this.questStatusService.getLockedReason(quest._id, behind.pmcData, locale);
+                const blocker = this.questStatusService.getQuestBlocker(quest._id, behind.pmcData);
+                if (blocker) 
+                {
+                    entry.firstBlockerId = blocker.firstBlockerId;
+                    entry.firstBlockerName =
+                        this.questLocaleService.getQuestName(blocker.firstBlockerId, locale) ?? blocker.firstBlockerId;
+                    entry.questsBehind = blocker.questsBehind;
+                }
+            }
+
+            const traderId = quest.traderId ?? "";
+            let group = groups.get(traderId);
+            if (!group) 
+            {
+                group = { traderId, traderName: this.questLocaleService.getTraderName(traderId, locale), quests: [] };
+                groups.set(traderId, group);
+            }
+
+            group.quests.push(entry);
+            questsUntilInSync++;
+        }
+
+        for (const group of groups.values()) 
+        {
+            group.quests.sort((a, b) => a.chainDepth - b.chainDepth || a.questName.localeCompare(b.questName));
+        }
+
+        return {
+            ahead: ahead.playerName,
+            behind: behind.playerName,
+            questsUntilInSync,
+            traders: [...groups.values()].sort((a, b) => a.traderName.localeCompare(b.traderName))
+        };
+    }
+
+    /**
+     * 2 for completed quests, 1 for started ones (including those ready to hand in), 0 otherwise.
+     */
+    private getProgress(status: number): number 
+    {
+        switch (status) 
+        {
+            case QuestStatus.Success:
+                return 2;
+            case QuestStatus.Started:
+            case QuestStatus.AvailableForFinish:
+                return 1;
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * Length of the longest prerequisite chain above a quest, memoized across both directions.
+     * A prerequisite already on the current path closes a cycle and is not followed.
+     */
+    private getChainDepth(questId: string, chainDepths: Map<string, number>, onPath: Set<string>): number 
+    {
+        const known = chainDepths.get(questId);
+        if (known !== undefined) 
+        {
+            return known;
+        }
+
+        onPath.add(questId);
+        let depth = 0;
+        for (const prerequisite of this.questStatusService.getQuestPrerequisites().get(questId) ?? []) 
+        {
+            if (!onPath.has(prerequisite.id)) 
+            {
+                depth = Math.max(depth, this.getChainDepth(prerequisite.id, chainDepths, onPath) + 1);
+            }
+        }
+
+        onPath.delete(questId);
+        chainDepths.set(questId, depth);
+        return depth;
+    }
+}
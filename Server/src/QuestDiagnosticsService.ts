@@ -0,0 +1,209 @@
+import { performance } from "node:perf_hooks";
+import { inject, injectable } from "tsyringe";
+import { ProfileHelper } from "@spt/helpers/ProfileHelper";
+import type {
+    DiagnosticsResponse,
+    RebuildResponse,
+    RouteTiming,
+    WebhookTestResponse
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+import type { QuestLocaleService } from "./QuestLocaleService";
+import type { QuestWebhookService } from "./QuestWebhookService";
+
+interface TimingTotals 
+{
+    count: number;
+    totalMs: number;
+    maxMs: number;
+    lastMs: number;
+}
+
+/**
+ * Admin routes for checking the mod's caches without reading debug logs, and request timing for every route.
+ * Only profiles listed in admin.profiles may use them, unless admin.allowEveryone is on.
+ */
+@injectable()
+export class QuestDiagnosticsService 
+{
+    private timings: Map<string, TimingTotals> = new Map();
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("ProfileHelper") private profileHelper: ProfileHelper,
+        @inject("ModConfigService") private configService: ModConfigService,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService,
+        @inject("QuestWebhookService") private webhookService: QuestWebhookService
+    ) 
+    {}
+
+    /**
+     * Runs a route action and records how long it took under the route's URL.
+     */
+    public async measure(route: string, action: () => Promise<string>): Promise<string> 
+    {
+        const start = performance.now();
+        try 
+        {
+            return await action();
+        }
+        finally 
+        {
+            const durationMs = performance.now() - start;
+            const totals = this.timings.get(route) ?? { count: 0, totalMs: 0, maxMs: 0, lastMs: 0 };
+            totals.count++;
+            totals.totalMs += durationMs;
+            totals.maxMs = Math.max(totals.maxMs, durationMs);
+            totals.lastMs = durationMs;
+            this.timings.set(route, totals);
+        }
+    }
+
+    /**
+     * Reports cache state, prerequisite graph problems, request timing and the profiles left out of responses.
+     */
+    public async handleGetDiagnostics(sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            if (!this.isAdmin(sessionId)) 
+            {
+                return this.forbidden();
+            }
+
+            const locale = this.questLocaleService.resolveLocale(undefined, sessionId);
+            const playerNames = new Map(
+                this.questStatusService.getPlayerProfiles().map((player) => [player.profileId, player.playerName])
+            );
+            const graphIssues = this.questStatusService.getGraphIssues();
+
+            const response: DiagnosticsResponse = {
+                prerequisiteCache: this.questStatusService.getPrerequisiteCacheDiagnostics(),
+                profileCache: this.questStatusService
+                    .getProfileCacheDiagnostics()
+                    .map((entry) => ({ ...entry, playerName: playerNames.get(entry.profileId) })),
+                maxQuestDepth: this.configService.getConfig().maxQuestDepth,
+                cycles: graphIssues.cycles.map((questIds) => ({
+                    questIds,
+                    questNames: questIds.map((questId) => this.questLocaleService.getQuestName(questId, locale) ?? questId)
+                })),
+                danglingPrerequisites: graphIssues.danglingPrerequisites,
+                timing: this.getTimings(),
+                excludedProfiles: this.questStatusService.getExcludedProfiles()
+            };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetDiagnostics: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to collect diagnostics");
+        }
+    }
+
+    /**
+     * Rebuilds the prerequisite cache and drops every cached profile, so the next request recomputes everything.
+     */
+    public async handleRebuild(sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            if (!this.isAdmin(sessionId)) 
+            {
+                return this.forbidden();
+            }
+
+            const start = performance.now();
+            const rebuilt = this.questStatusService.rebuildCaches();
+            const durationMs = Math.round(performance.now() - start);
+            this.logger.info(`[LunaStatusQuestsServer] Caches rebuilt on request in ${durationMs} ms`);
+
+            const response: RebuildResponse = {
+                rebuilt,
+                durationMs,
+                prerequisiteCache: this.questStatusService.getPrerequisiteCacheDiagnostics()
+            };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleRebuild: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to rebuild caches");
+        }
+    }
+
+    /**
+     * Sends a sample event to every webhook target and reports which ones accepted it.
+     * Waits for retries, so a failing target answers after the full retry backoff.
+     */
+    public async handleTestWebhooks(sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            if (!this.isAdmin(sessionId)) 
+            {
+                return this.forbidden();
+            }
+
+            // The event names the requester, so everyone watching the target can tell who sent the test
+            const profile = sessionId ? this.profileHelper.getProfiles()[sessionId] : undefined;
+            const playerName = profile?.characters?.pmc?.Info?.Nickname ?? "LunaStatusQuests";
+            const response: WebhookTestResponse = { results: await this.webhookService.sendTestEvent(playerName) };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleTestWebhooks: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to send test webhooks");
+        }
+    }
+
+    /**
+     * admin.profiles takes nicknames (any case) or profile IDs; the session ID is the requester's profile ID.
+     */
+    private isAdmin(sessionId: string | undefined): boolean 
+    {
+        const admin = this.configService.getConfig().admin;
+        if (admin.allowEveryone) 
+        {
+            return true;
+        }
+
+        if (!sessionId) 
+        {
+            return false;
+        }
+
+        const nickname = this.profileHelper.getProfiles()[sessionId]?.characters?.pmc?.Info?.Nickname;
+        const name = typeof nickname === "string" ? nickname.toLowerCase() : undefined;
+        return admin.profiles.some((entry) => entry === sessionId || entry.toLowerCase() === name);
+    }
+
+    private forbidden(): string 
+    {
+        return this.questStatusService.errorResponse(
+            "Forbidden",
+            "Admin routes are limited to the profiles in the server's admin.profiles option"
+        );
+    }
+
+    private getTimings(): { [route: string]: RouteTiming } 
+    {
+        const round = (value: number): number => Math.round(value * 100) / 100;
+        const result: { [route: string]: RouteTiming } = {};
+
+        for (const [route, totals] of this.timings) 
+        {
+            result[route] = {
+                count: totals.count,
+                averageMs: round(totals.totalMs / totals.count),
+                maxMs: round(totals.maxMs),
+                lastMs: round(totals.lastMs)
+            };
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,242 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { unreachableQuestStatus } from "./models/QuestStatusModels";
+import type {
+    QuestGraphEdge,
+    QuestGraphNode,
+    QuestGraphRequest,
+    QuestGraphResponse,
+    QuestStatusResponse
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+/**
+ * Exports the quest prerequisite graph as JSON or as a Graphviz DOT document.
+ */
+@injectable()
+export class QuestGraphService 
+{
+    // Same colours the client uses for each status
+    private static readonly statusColors: Record<number, string> = {
+        [QuestStatus.Locked]: "#808080",
+        [QuestStatus.AvailableForStart]: "#FFD700",
+        [QuestStatus.Started]: "#FFA500",
+        [QuestStatus.AvailableForFinish]: "#00FF00",
+        [QuestStatus.Success]: "#32CD32",
+        [QuestStatus.Fail]: "#FF4444",
+        [QuestStatus.FailRestartable]: "#FF6600",
+        [QuestStatus.MarkedAsFailed]: "#FF4444",
+        [QuestStatus.Expired]: "#666666",
+        [QuestStatus.AvailableAfter]: "#87CEEB",
+        [unreachableQuestStatus]: "#5C4033"
+    };
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns the graph in the requested format. `forceFormat` is used by the /graph.dot route.
+     */
+    public async handleGetGraph(
+        request?: QuestGraphRequest,
+        forceFormat?: "json" | "dot",
+        sessionId?: string
+    ): Promise<string> 
+    {
+        try 
+        {
+            const format = forceFormat ?? request?.format ?? "json";
+            if (format !== "json" && format !== "dot") 
+            {
+                return this.questStatusService.errorResponse("InvalidRequest", "format must be \"json\" or \"dot\"");
+            }
+
+            const locale = this.questLocaleService.resolveLocale(request?.locale, sessionId);
+            const statuses = this.getRequestedStatuses(request?.profiles, locale, sessionId);
+            if (typeof statuses === "string") 
+            {
+                return statuses;
+            }
+
+            const graph = this.buildGraph(statuses, locale);
+            return format === "dot" ? this.toDot(graph) : JSON.stringify(graph);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetGraph: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to build quest graph");
+        }
+    }
+
+    /**
+     * Computes statuses for the requested profiles, or returns an error response for unknown names.
+     */
+    private getRequestedStatuses(
+        profiles: string[] | "*" | undefined,
+        locale: string,
+        sessionId: string | undefined
+    ): QuestStatusResponse | string 
+    {
+        this.questStatusService.prepareCaches();
+
+        if (profiles === undefined || (Array.isArray(profiles) && profiles.length === 0)) 
+        {
+            return {};
+        }
+
+        if (profiles !== "*" && !Array.isArray(profiles)) 
+        {
+            return this.questStatusService.errorResponse("InvalidRequest", "profiles must be an array or \"*\"");
+        }
+
+        const players = this.questStatusService.resolveRequestedPlayers(
+            profiles === "*" ? undefined : profiles,
+            sessionId
+        );
+        if (typeof players === "string") 
+        {
+            return players;
+        }
+
+        const statuses = this.questStatusService.getQuestStatuses(undefined, locale, players);
+        if (profiles === "*") 
+        {
+            return statuses;
+        }
+
+        // One column per profile in the requested order
+        const result: QuestStatusResponse = {};
+        for (const name of profiles) 
+        {
+            result[name] = statuses[name];
+        }
+
+        return result;
+    }
+
+    private buildGraph(statuses: QuestStatusResponse, locale: string): QuestGraphResponse 
+    {
+        const quests: IQuest[] = this.questHelper.getQuestsFromDb();
+        const knownQuestIds = new Set(quests.map((quest) => quest._id));
+        const playerNames = Object.keys(statuses);
+
+        const nodes: QuestGraphNode[] = quests.map((quest) => 
+        {
+            const node: QuestGraphNode = {
+                id: quest._id,
+                name: this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id,
+                traderId: quest.traderId,
+                traderName: quest.traderId ? this.questLocaleService.getTraderName(quest.traderId, locale) : undefined
+            };
+
+            if (playerNames.length > 0) 
+            {
+                node.statuses = {};
+                for (const playerName of playerNames) 
+                {
+                    const info = statuses[playerName][quest._id];
+                    node.statuses[playerName] = this.questStatusService.toSchemaV1Status(
+                        info?.status ?? QuestStatus.Locked
+                    );
+
+                    if (info?.unreachableReason) 
+                    {
+                        node.unreachableReasons ??= {};
+                        node.unreachableReasons[playerName] = info.unreachableReason;
+                    }
+                }
+            }
+
+            return node;
+        });
+
+        const edges: QuestGraphEdge[] = [];
+        for (const [questId, prerequisites] of this.questStatusService.getQuestPrerequisites()) 
+        {
+            for (const prereq of prerequisites) 
+            {
+                // Unknown prerequisites are reported in issues.danglingPrerequisites instead
+                if (knownQuestIds.has(prereq.id)) 
+                {
+                    edges.push({ from: prereq.id, to: questId });
+                }
+            }
+        }
+
+        return { nodes, edges, issues: this.questStatusService.getGraphIssues() };
+    }
+
+    /**
+     * Renders the graph as Graphviz DOT. With statuses, each node gets one coloured cell per profile.
+     */
+    private toDot(graph: QuestGraphResponse): string 
+    {
+        const lines = [
+            "digraph LunaStatusQuests {",
+            "    rankdir=LR;",
+            "    node [shape=plaintext, fontname=\"Helvetica\"];"
+        ];
+
+        for (const node of graph.nodes) 
+        {
+            lines.push(`    "${node.id}" [label=<${this.getDotLabel(node)}>];`);
+        }
+
+        for (const edge of graph.edges) 
+        {
+            lines.push(`    "${edge.from}" -> "${edge.to}";`);
+        }
+
+        for (const cycle of graph.issues.cycles) 
+        {
+            lines.push(`    // cycle: ${cycle.join(" -> ")}`);
+        }
+
+        for (const dangling of graph.issues.danglingPrerequisites) 
+        {
+            lines.push(`    // unknown prerequisite ${dangling.prerequisiteId} of ${dangling.questId}`);
+        }
+
+        lines.push("}");
+        return lines.join("\n");
+    }
+
+    private getDotLabel(node: QuestGraphNode): string 
+    {
+        const title = this.escapeHtml(node.name);
+        const trader = node.traderName ? `<br/><font point-size="9">${this.escapeHtml(node.traderName)}</font>` : "";
+        const statuses = Object.entries(node.statuses ?? {});
+        const columns = Math.max(statuses.length, 1);
+
+        let label = "<table border=\"0\" cellborder=\"1\" cellspacing=\"0\">";
+        label += `<tr><td colspan="${columns}">${title}${trader}</td></tr>`;
+
+        if (statuses.length > 0) 
+        {
+            label += "<tr>";
+            for (const [playerName, status] of statuses) 
+            {
+                const cellStatus = node.unreachableReasons?.[playerName] ? unreachableQuestStatus : status;
+                const color = QuestGraphService.statusColors[cellStatus] ?? "#FFFFFF";
+                label += `<td bgcolor="${color}"><font point-size="9">${this.escapeHtml(playerName)}</font></td>`;
+            }
+            label += "</tr>";
+        }
+
+        return `${label}</table>`;
+    }
+
+    private escapeHtml(text: string): string 
+    {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+}
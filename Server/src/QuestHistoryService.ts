@@ -0,0 +1,343 @@
+import fs from "node:fs";
+import path from "node:path";
+import { inject, injectable } from "tsyringe";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { unreachableQuestStatus } from "./models/QuestStatusModels";
+import type {
+    QuestHistoryEntry,
+    QuestHistoryRequest,
+    QuestHistoryResponse,
+    QuestStatusChange
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { QuestStatusSnapshotService } from "./QuestStatusSnapshotService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+
+/**
+ * Records every quest status transition found by the snapshot diff to data/history.jsonl (one JSON entry per line),
+ * so "when did we finish this quest?" can still be answered after a server restart.
+ */
+@injectable()
+export class QuestHistoryService 
+{
+    // Oldest first, mirrors the file
+    private entries: QuestHistoryEntry[] = [];
+
+    private static readonly historyPath = path.join(__dirname, "..", "data", "history.jsonl");
+    private static readonly defaultLimit = 1000;
+    private static readonly dayMs = 24 * 60 * 60 * 1000;
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("ModConfigService") private configService: ModConfigService,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestStatusSnapshotService") snapshotService: QuestStatusSnapshotService
+    ) 
+    {
+        snapshotService.addChangeListener((changes) => this.recordChanges(changes));
+    }
+
+    /**
+     * Reads the history file and compacts it. Called once from preSptLoad.
+     */
+    public load(): void 
+    {
+        if (!this.configService.getConfig().history.enabled || !fs.existsSync(QuestHistoryService.historyPath)) 
+        {
+            return;
+        }
+
+        try 
+        {
+            let invalidLines = 0;
+            const lines = fs.readFileSync(QuestHistoryService.historyPath, "utf-8").split("\n");
+
+            for (const line of lines) 
+            {
+                if (line.trim().length === 0) 
+                {
+                    continue;
+                }
+
+                try 
+                {
+                    const entry: unknown = JSON.parse(line);
+                    if (this.isValidEntry(entry)) 
+                    {
+                        // Older files stored unreachable quests as status 100
+                        entry.status = this.questStatusService.toSchemaV1Status(entry.status);
+                        entry.previousStatus = this.questStatusService.toSchemaV1Status(entry.previousStatus);
+                        this.entries.push(entry);
+                        continue;
+                    }
+                }
+                catch 
+                {
+                    // Counted below; usually a line cut short by a crash while appending
+                }
+
+                invalidLines++;
+            }
+
+            if (invalidLines > 0) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Skipped ${invalidLines} invalid history line(s)`);
+            }
+
+            this.entries.sort((a, b) => a.timestamp - b.timestamp);
+            this.compact();
+            this.logger.debug(`[LunaStatusQuestsServer] Loaded ${this.entries.length} history entries`);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Could not read quest history: ${error}`);
+        }
+    }
+
+    /**
+     * Returns the recorded transitions matching the request filters, newest first.
+     */
+    public async handleGetHistory(request?: QuestHistoryRequest, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const profiles = this.readStringFilter(request?.profiles);
+            const questIds = this.readStringFilter(request?.questIds);
+            const statuses = this.readStatusFilter(request?.statuses);
+            const from = this.readTime(request?.from);
+            const to = this.readTime(request?.to);
+            const limit = request?.limit ?? QuestHistoryService.defaultLimit;
+
+            if (profiles === null || questIds === null) 
+            {
+                return this.questStatusService.errorResponse(
+                    "InvalidRequest",
+                    "profiles and questIds must be arrays of strings"
+                );
+            }
+
+            if (statuses === null) 
+            {
+                return this.questStatusService.errorResponse(
+                    "InvalidRequest",
+                    "statuses must be an array of status numbers or names"
+                );
+            }
+
+            if (from === null || to === null) 
+            {
+                return this.questStatusService.errorResponse(
+                    "InvalidRequest",
+                    "from and to must be Unix times in milliseconds or ISO 8601 dates"
+                );
+            }
+
+            if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1) 
+            {
+                return this.questStatusService.errorResponse("InvalidRequest", "limit must be a positive integer");
+            }
+
+            // Hidden and opted-out profiles, and those a friends-only requester may not see, stay hidden here too
+            const visibleProfiles = new Set(
+                this.questStatusService.getPlayerProfilesFor(sessionId).map((player) => player.playerName)
+            );
+
+            const matches = this.entries
+                .filter(
+                    (entry) =>
+                        visibleProfiles.has(entry.playerName) &&
+                        (!profiles || profiles.has(entry.playerName)) &&
+                        (!questIds || questIds.has(entry.questId)) &&
+                        (!statuses || this.matchesStatus(entry, statuses)) &&
+                        (from === undefined || entry.timestamp >= from) &&
+                        (to === undefined || entry.timestamp <= to)
+                )
+                .reverse();
+
+            const response: QuestHistoryResponse = { total: matches.length, entries: matches.slice(0, limit) };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetHistory: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to read quest history");
+        }
+    }
+
+    private recordChanges(changes: QuestStatusChange[]): void 
+    {
+        if (!this.configService.getConfig().history.enabled) 
+        {
+            return;
+        }
+
+        const timestamp = Date.now();
+        const newEntries: QuestHistoryEntry[] = changes
+            .filter((change) => change.previous && change.previous.status !== change.current.status)
+            .map((change) => ({
+                timestamp,
+                playerName: change.playerName,
+                questId: change.questId,
+                questName: change.current.questName,
+                status: this.questStatusService.toSchemaV1Status(change.current.status),
+                previousStatus: this.questStatusService.toSchemaV1Status(change.previous?.status),
+                unreachableReason: change.current.unreachableReason
+            }));
+
+        if (newEntries.length === 0) 
+        {
+            return;
+        }
+
+        this.entries.push(...newEntries);
+
+        try 
+        {
+            fs.mkdirSync(path.dirname(QuestHistoryService.historyPath), { recursive: true });
+            fs.appendFileSync(
+                QuestHistoryService.historyPath,
+                newEntries.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+                "utf-8"
+            );
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Could not write quest history: ${error}`);
+        }
+
+        // Let the file grow a little past the limit so it isn't rewritten on every transition
+        if (this.entries.length > Math.ceil(this.configService.getConfig().history.maxEntries * 1.1)) 
+        {
+            this.compact();
+        }
+    }
+
+    /**
+     * Drops entries past the retention period and beyond maxEntries (oldest first), then rewrites the file.
+     * The new file is written next to the old one and renamed over it, so a crash never leaves a truncated history.
+     */
+    private compact(): void 
+    {
+        const { maxEntries, retentionDays } = this.configService.getConfig().history;
+        const before = this.entries.length;
+
+        if (retentionDays > 0) 
+        {
+            const cutoff = Date.now() - retentionDays * QuestHistoryService.dayMs;
+            this.entries = this.entries.filter((entry) => entry.timestamp >= cutoff);
+        }
+
+        if (this.entries.length > maxEntries) 
+        {
+            this.entries = this.entries.slice(this.entries.length - maxEntries);
+        }
+
+        if (this.entries.length === before) 
+        {
+            return;
+        }
+
+        try 
+        {
+            const tempPath = `${QuestHistoryService.historyPath}.tmp`;
+            fs.writeFileSync(tempPath, this.entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf-8");
+            fs.renameSync(tempPath, QuestHistoryService.historyPath);
+            this.logger.debug(
+                `[LunaStatusQuestsServer] Compacted quest history from ${before} to ${this.entries.length} entries`
+            );
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Could not compact quest history: ${error}`);
+        }
+    }
+
+    private isValidEntry(entry: unknown): entry is QuestHistoryEntry 
+    {
+        return (
+            typeof entry === "object" &&
+            entry !== null &&
+            "timestamp" in entry &&
+            typeof entry.timestamp === "number" &&
+            "playerName" in entry &&
+            typeof entry.playerName === "string" &&
+            "questId" in entry &&
+            typeof entry.questId === "string" &&
+            "status" in entry &&
+            typeof entry.status === "number"
+        );
+    }
+
+    /**
+     * Unreachable quests are recorded as Locked, so they match both a Locked and an "Unreachable" filter.
+     */
+    private matchesStatus(entry: QuestHistoryEntry, statuses: Set<number>): boolean 
+    {
+        return (
+            statuses.has(entry.status) || (entry.unreachableReason !== undefined && statuses.has(unreachableQuestStatus))
+        );
+    }
+
+    /**
+     * Undefined when the filter is omitted, null when it is invalid.
+     */
+    private readStringFilter(values: unknown): Set<string> | undefined | null 
+    {
+        if (values === undefined) 
+        {
+            return undefined;
+        }
+
+        if (!Array.isArray(values) || values.some((value) => typeof value !== "string")) 
+        {
+            return null;
+        }
+
+        return new Set(values);
+    }
+
+    private readStatusFilter(values: unknown): Set<number> | undefined | null 
+    {
+        if (values === undefined) 
+        {
+            return undefined;
+        }
+
+        if (!Array.isArray(values)) 
+        {
+            return null;
+        }
+
+        const statuses = new Set<number>();
+        for (const value of values) 
+        {
+            // Unreachable quests are only asked for by name, the number stays inside the server
+            const status = typeof value === "string" ? this.parseStatusName(value) : value;
+            if (typeof status !== "number" || (QuestStatus[status] === undefined && value !== "Unreachable")) 
+            {
+                return null;
+            }
+
+            statuses.add(status);
+        }
+
+        return statuses;
+    }
+
+    private parseStatusName(name: string): number | undefined 
+    {
+        return name === "Unreachable" ? unreachableQuestStatus : QuestStatus[name as keyof typeof QuestStatus];
+    }
+
+    private readTime(value: unknown): number | undefined | null 
+    {
+        if (value === undefined) 
+        {
+            return undefined;
+        }
+
+        const time = typeof value === "string" ? Date.parse(value) : value;
+        return typeof time === "number" && Number.isFinite(time) ? time : null;
+    }
+}
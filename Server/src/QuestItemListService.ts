@@ -0,0 +1,197 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IPmcData } from "@spt/models/eft/common/IPmcData";
+import type { IQuest, IQuestCondition } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type { ItemListEntry, ItemListRequest, ItemListResponse, ItemNeed } from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+import type { QuestObjectiveService } from "./QuestObjectiveService";
+
+/**
+ * Builds a shopping list of the items that started quests still need handed over or found,
+ * so a squad knows what to keep from a raid.
+ */
+@injectable()
+export class QuestItemListService 
+{
+    private static readonly itemConditionTypes = new Set(["HandoverItem", "FindItem"]);
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestObjectiveService") private objectiveService: QuestObjectiveService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns the items each profile still needs for its Started quests (and Available ones on request),
+     * plus the same list merged across the profiles.
+     */
+    public async handleGetItemList(request: ItemListRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const selectedPlayers = this.questStatusService.resolveRequestedPlayers(request?.profiles, sessionId);
+            if (typeof selectedPlayers === "string") 
+            {
+                return selectedPlayers;
+            }
+
+            const includeAvailable = request?.includeAvailable ?? false;
+            if (typeof includeAvailable !== "boolean") 
+            {
+                return this.questStatusService.errorResponse("InvalidRequest", "includeAvailable must be a boolean");
+            }
+
+            this.questStatusService.prepareCaches();
+
+            const locale = this.questLocaleService.resolveLocale(request?.locale, sessionId);
+            const statuses = this.questStatusService.getQuestStatuses(undefined, locale, selectedPlayers);
+            const quests: IQuest[] = this.questHelper.getQuestsFromDb();
+            const response: ItemListResponse = { profiles: {}, total: [] };
+            const total = new Map<string, ItemListEntry>();
+
+            for (const player of selectedPlayers) 
+            {
+                const entries = new Map<string, ItemListEntry>();
+
+                for (const quest of quests) 
+                {
+                    const status = statuses[player.playerName]?.[quest._id]?.status;
+                    if (
+                        status === QuestStatus.Started ||
+                        (includeAvailable && status === QuestStatus.AvailableForStart)
+                    ) 
+                    {
+                        this.addQuestItems(quest, status, player.playerName, player.pmcData, locale, [entries, total]);
+                    }
+                }
+
+                response.profiles[player.playerName] = this.sortEntries(entries);
+            }
+
+            response.total = this.sortEntries(total);
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetItemList: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute item list");
+        }
+    }
+
+    /**
+     * Adds the unmet item objectives of one quest to every given list.
+     */
+    private addQuestItems(
+        quest: IQuest,
+        questStatus: number,
+        playerName: string,
+        pmcData: IPmcData,
+        locale: string,
+        lists: Map<string, ItemListEntry>[]
+    ): void 
+    {
+        const conditions = this.getItemConditions(quest);
+        if (conditions.size === 0) 
+        {
+            return;
+        }
+
+        for (const objective of this.objectiveService.getObjectiveProgress(quest, pmcData, locale)) 
+        {
+            const condition = conditions.get(objective.conditionId);
+            const remaining = objective.target - objective.current;
+            if (!condition || objective.completed || remaining <= 0) 
+            {
+                continue;
+            }
+
+            const templateIds = this.getTemplateIds(condition);
+            const foundInRaid = condition.onlyFoundInRaid === true;
+            const need: ItemNeed = {
+                playerName,
+                questId: quest._id,
+                questName: this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id,
+                questStatus,
+                conditionId: objective.conditionId,
+                conditionType: objective.conditionType,
+                required: objective.target,
+                current: objective.current,
+                remaining
+            };
+
+            for (const list of lists) 
+            {
+                const key = `${templateIds.join(",")}|${foundInRaid}`;
+                let entry = list.get(key);
+                if (!entry) 
+                {
+                    entry = {
+                        templateId: templateIds[0],
+                        itemName: this.questLocaleService.getText(`${templateIds[0]} Name`, locale) ?? templateIds[0],
+                        alternativeIds: templateIds.length > 1 ? templateIds.slice(1) : undefined,
+                        foundInRaid,
+                        required: 0,
+                        current: 0,
+                        remaining: 0,
+                        needs: []
+                    };
+                    list.set(key, entry);
+                }
+
+                entry.required += need.required;
+                entry.current += need.current;
+                entry.remaining += need.remaining;
+                entry.needs.push(need);
+            }
+        }
+    }
+
+    /**
+     * Item conditions of a quest keyed by condition ID. Quests usually ask to find items and then hand the same
+     * items over; only the hand-over is kept then, so the items are not counted twice.
+     */
+    private getItemConditions(quest: IQuest): Map<string, IQuestCondition> 
+    {
+        const conditions: IQuestCondition[] = (quest?.conditions?.AvailableForFinish ?? []).filter(
+            (condition: IQuestCondition) =>
+                condition?.id &&
+                QuestItemListService.itemConditionTypes.has(condition.conditionType) &&
+                this.getTemplateIds(condition).length > 0
+        );
+        const handoverTargets = new Set(
+            conditions
+                .filter((condition) => condition.conditionType === "HandoverItem")
+                .map((condition) => this.getTemplateIds(condition).join(","))
+        );
+
+        const result = new Map<string, IQuestCondition>();
+        for (const condition of conditions) 
+        {
+            if (condition.conditionType === "FindItem" && handoverTargets.has(this.getTemplateIds(condition).join(","))) 
+            {
+                continue;
+            }
+
+            result.set(condition.id, condition);
+        }
+
+        return result;
+    }
+
+    private getTemplateIds(condition: IQuestCondition): string[] 
+    {
+        const targets = Array.isArray(condition.target) ? condition.target : [condition.target];
+        return targets.filter((target): target is string => typeof target === "string" && target.length > 0).sort();
+    }
+
+    private sortEntries(entries: Map<string, ItemListEntry>): ItemListEntry[] 
+    {
+        return [...entries.values()].sort((a, b) => b.remaining - a.remaining || a.itemName.localeCompare(b.itemName));
+    }
+}
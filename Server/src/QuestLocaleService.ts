@@ -0,0 +1,205 @@
+import fs from "node:fs";
+import path from "node:path";
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import { DatabaseService } from "@spt/services/DatabaseService";
+import { LocaleService } from "@spt/services/LocaleService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+
+export type PhraseKey =
+    | "questsBehind"
+    | "level"
+    | "traderLoyalty"
+    | "traderStanding"
+    | "timer"
+    | "unreachableFaction"
+    | "unreachableExclusive"
+    | "unreachablePrerequisite"
+    | "recommendUnlocks"
+    | "recommendNoUnlocks"
+    | "recommendKappaUnlocks"
+    | "recommendKappaRequired"
+    | "recommendReadyToFinish"
+    | "webhookQuestCompleted"
+    | "webhookQuestUnlocked"
+    | "webhookKappaCompleted";
+
+/**
+ * Resolves quest names, trader names and the mod's own phrases in the language a client asked for,
+ * falling back to English. Quest names are cached per locale.
+ */
+@injectable()
+export class QuestLocaleService 
+{
+    private questNameCache: Map<string, Map<string, string | undefined>> = new Map();
+    private translations: Map<string, Partial<Record<PhraseKey, string>>> = new Map();
+    private sessionLocales: Map<string, string> = new Map();
+
+    private static readonly fallbackLocale = "en";
+    private static readonly translationsPath = path.join(__dirname, "..", "locales");
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("DatabaseService") private databaseService: DatabaseService,
+        @inject("LocaleService") private localeService: LocaleService,
+        @inject("ModConfigService") private configService: ModConfigService
+    ) 
+    {}
+
+    /**
+     * Reads the phrase translations in locales/*.json. Called once from preSptLoad; the CLI passes its own path.
+     */
+    public loadTranslations(translationsPath = QuestLocaleService.translationsPath): void 
+    {
+        try 
+        {
+            for (const file of fs.readdirSync(translationsPath)) 
+            {
+                if (!file.endsWith(".json")) 
+                {
+                    continue;
+                }
+
+                const locale = path.basename(file, ".json");
+                const content = fs.readFileSync(path.join(translationsPath, file), "utf-8");
+                this.translations.set(locale, JSON.parse(content));
+            }
+
+            this.logger.debug(`[LunaStatusQuestsServer] Loaded translations: ${[...this.translations.keys()].join(", ")}`);
+        }
+        catch (error) 
+        {
+            this.logger.warning(`[LunaStatusQuestsServer] Could not load translations, using English: ${error}`);
+        }
+    }
+
+    /**
+     * Remembers the game language a session loaded, so requests without an explicit locale still match the client.
+     */
+    public setSessionLocale(sessionId: string, locale: string): void 
+    {
+        if (sessionId && this.isKnownLocale(locale)) 
+        {
+            this.sessionLocales.set(sessionId, locale);
+        }
+    }
+
+    /**
+     * Picks the locale for a request: the explicitly requested one, then the session's game language,
+     * then the server's default game language.
+     */
+    public resolveLocale(requested?: unknown, sessionId?: string): string 
+    {
+        if (typeof requested === "string" && this.isKnownLocale(requested)) 
+        {
+            return requested;
+        }
+
+        const sessionLocale = sessionId ? this.sessionLocales.get(sessionId) : undefined;
+        return sessionLocale ?? this.getDefaultLocale();
+    }
+
+    public getDefaultLocale(): string 
+    {
+        const desired = this.localeService.getDesiredGameLocale();
+        return this.isKnownLocale(desired) ? desired : QuestLocaleService.fallbackLocale;
+    }
+
+    /**
+     * Retrieves the localized name of a quest.
+     * Falls back to English, then to the internal QuestName, then undefined.
+     */
+    public getQuestName(questId: string, locale: string): string | undefined 
+    {
+        let localeCache = this.questNameCache.get(locale);
+        if (!localeCache) 
+        {
+            localeCache = new Map();
+            this.questNameCache.set(locale, localeCache);
+        }
+
+        if (localeCache.has(questId)) 
+        {
+            return localeCache.get(questId);
+        }
+
+        const name = this.resolveQuestName(questId, locale);
+        localeCache.set(questId, name);
+        return name;
+    }
+
+    /**
+     * Retrieves the localized nickname of a trader, falling back to the trader ID.
+     */
+    public getTraderName(traderId: string, locale: string): string 
+    {
+        return this.getText(`${traderId} Nickname`, locale) ?? traderId;
+    }
+
+    /**
+     * Looks up a key in the game's locale tables, falling back to English.
+     */
+    public getText(key: string, locale: string): string | undefined 
+    {
+        const text = this.getLocaleTable(locale)?.[key] ?? this.getLocaleTable(QuestLocaleService.fallbackLocale)?.[key];
+        return text && text.length > 0 ? text : undefined;
+    }
+
+    /**
+     * Formats one of the mod's own phrases, replacing {placeholders} with the given values.
+     * The English quests-behind phrase comes from the questsBehindFormat config option.
+     */
+    public formatPhrase(key: PhraseKey, locale: string, values: Record<string, string | number>): string 
+    {
+        let phrase = this.translations.get(locale)?.[key];
+
+        if (!phrase) 
+        {
+            phrase =
+                key === "questsBehind"
+                    ? this.configService.getConfig().questsBehindFormat
+                    : (this.translations.get(QuestLocaleService.fallbackLocale)?.[key] ?? key);
+        }
+
+        return phrase.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? `${values[name]}` : match));
+    }
+
+    private resolveQuestName(questId: string, locale: string): string | undefined 
+    {
+        try 
+        {
+            const invalidNames = [questId, `${questId} Name`, "name", "Name", ""];
+            const localizedName = this.getText(`${questId} name`, locale);
+
+            if (localizedName && !invalidNames.includes(localizedName)) 
+            {
+                return localizedName;
+            }
+
+            const quest = this.questHelper.getQuestsFromDb().find((candidate) => candidate._id === questId);
+            if (quest?.QuestName && quest.QuestName !== "name" && quest.QuestName !== "Name") 
+            {
+                return quest.QuestName;
+            }
+
+            return undefined;
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error getting quest name for ${questId}: ${error}`);
+            return undefined;
+        }
+    }
+
+    private isKnownLocale(locale: string): boolean 
+    {
+        return this.getLocaleTable(locale) !== undefined;
+    }
+
+    private getLocaleTable(locale: string): Record<string, string> | undefined 
+    {
+        return this.databaseService.getLocales().global[locale];
+    }
+}
@@ -0,0 +1,119 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IPmcData } from "@spt/models/eft/common/IPmcData";
+import type { IQuest, IQuestCondition } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type { ObjectiveProgress, QuestObjectivesResponse } from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+/**
+ * Reports per-objective progress of started quests, read from the profile's condition counters.
+ * Kept out of the default statuses payload; clients ask for it per quest.
+ */
+@injectable()
+export class QuestObjectiveService 
+{
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns the objective progress of one quest for every profile that has it started.
+     */
+    public async handleGetQuestObjectives(questId: string, locale?: string, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const resolvedLocale = this.questLocaleService.resolveLocale(locale, sessionId);
+            const quest = this.questHelper.getQuestsFromDb().find((candidate) => candidate._id === questId);
+            if (!quest) 
+            {
+                return this.questStatusService.errorResponse("QuestNotFound", `Unknown quest ID: ${questId}`, [
+                    questId
+                ]);
+            }
+
+            const players = this.questStatusService.getPlayerProfilesFor(sessionId);
+            const response: QuestObjectivesResponse = {
+                questId,
+                questName: this.questLocaleService.getQuestName(questId, resolvedLocale) ?? questId,
+                profiles: {}
+            };
+
+            for (const player of players) 
+            {
+                const status = this.questHelper.getQuestStatus(player.pmcData, questId);
+                if (status !== QuestStatus.Started && status !== QuestStatus.AvailableForFinish) 
+                {
+                    continue;
+                }
+
+                response.profiles[player.playerName] = {
+                    status,
+                    objectives: this.getObjectiveProgress(quest, player.pmcData, resolvedLocale)
+                };
+            }
+
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetQuestObjectives: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute quest objectives");
+        }
+    }
+
+    /**
+     * Lists each AvailableForFinish condition of a quest with the profile's counter value and target.
+     * Conditions the profile already completed report their full target.
+     */
+    public getObjectiveProgress(
+        quest: IQuest,
+        pmcData: IPmcData,
+        locale = this.questLocaleService.getDefaultLocale()
+    ): ObjectiveProgress[] 
+    {
+        const conditions: IQuestCondition[] = quest?.conditions?.AvailableForFinish ?? [];
+        const completedConditions = new Set<string>(
+            pmcData.Quests?.find((questState) => questState.qid === quest._id)?.completedConditions ?? []
+        );
+
+        return conditions
+            .filter((condition) => condition?.id)
+            .map((condition) => 
+            {
+                const target = this.getConditionTarget(condition);
+                const completed = completedConditions.has(condition.id);
+                const counterValue = pmcData.TaskConditionCounters?.[condition.id]?.value ?? 0;
+
+                return {
+                    conditionId: condition.id,
+                    conditionType: condition.conditionType,
+                    description: this.getConditionDescription(condition, locale),
+                    current: completed ? target : Math.min(counterValue, target),
+                    target,
+                    completed
+                };
+            });
+    }
+
+    /**
+     * Conditions without a numeric value (e.g. visiting a zone) count as a single step.
+     */
+    private getConditionTarget(condition: IQuestCondition): number 
+    {
+        const target = Number(condition.value);
+        return Number.isFinite(target) && target > 0 ? target : 1;
+    }
+
+    private getConditionDescription(condition: IQuestCondition, locale: string): string 
+    {
+        return this.questLocaleService.getText(condition.id, locale) ?? condition.conditionType;
+    }
+}
@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import path from "node:path";
+import { inject, injectable } from "tsyringe";
+import { ProfileHelper } from "@spt/helpers/ProfileHelper";
+import type { ErrorCode, ErrorResponse, PrivacyRequest, PrivacyResponse } from "./models/QuestStatusModels";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+
+/**
+ * Decides which profiles leave the server and who gets to see them. Profiles opted out in the config or with the
+ * privacy route are never shared; in friends-only mode each requester only sees its own profile and its friends.
+ * The requester is identified by the session ID, which SPT sets to the requester's profile ID.
+ */
+@injectable()
+export class QuestPrivacyService 
+{
+    // Profile IDs that opted out with the privacy route
+    private optedOut: Set<string> = new Set();
+
+    private static readonly privacyPath = path.join(__dirname, "..", "data", "privacy.json");
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("ProfileHelper") private profileHelper: ProfileHelper,
+        @inject("ModConfigService") private configService: ModConfigService
+    ) 
+    {}
+
+    /**
+     * Reads the opt-outs made with the privacy route. Called once from preSptLoad.
+     */
+    public load(): void 
+    {
+        if (!fs.existsSync(QuestPrivacyService.privacyPath)) 
+        {
+            return;
+        }
+
+        try 
+        {
+            const data = JSON.parse(fs.readFileSync(QuestPrivacyService.privacyPath, "utf-8"));
+            const optedOut: unknown[] = Array.isArray(data?.optedOut) ? data.optedOut : [];
+            this.optedOut = new Set(optedOut.filter((id): id is string => typeof id === "string"));
+            this.logger.debug(`[LunaStatusQuestsServer] Loaded ${this.optedOut.size} privacy opt-out(s)`);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Could not read privacy settings: ${error}`);
+        }
+    }
+
+    /**
+     * Shows the requester's sharing state; with `share` in the body, opts its profile out or back in first.
+     */
+    public async handlePrivacy(request: PrivacyRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const profile = sessionId ? this.profileHelper.getProfiles()[sessionId]?.characters?.pmc : undefined;
+            if (!profile) 
+            {
+                return this.errorResponse("ProfileNotFound", "The request does not belong to a known profile");
+            }
+
+            const share = request?.share;
+            if (share !== undefined && typeof share !== "boolean") 
+            {
+                return this.errorResponse("InvalidRequest", "share must be true or false");
+            }
+
+            const privacy = this.configService.getConfig().privacy;
+            const playerName = profile.Info?.Nickname ?? sessionId;
+
+            if (share === false && !this.optedOut.has(sessionId)) 
+            {
+                if (!privacy.allowOptOut) 
+                {
+                    return this.errorResponse("InvalidRequest", "Opting out is disabled on this server");
+                }
+
+                this.optedOut.add(sessionId);
+                this.save();
+                this.logger.info(`[LunaStatusQuestsServer] ${playerName} stopped sharing quest progress`);
+            }
+            else if (share === true && this.optedOut.has(sessionId)) 
+            {
+                // Opting back in stays possible after allowOptOut was turned off
+                this.optedOut.delete(sessionId);
+                this.save();
+                this.logger.info(`[LunaStatusQuestsServer] ${playerName} shares quest progress again`);
+            }
+
+            const response: PrivacyResponse = {
+                playerName,
+                sharing: this.isShared(sessionId, playerName),
+                hiddenByServer: this.isListed(privacy.optedOutProfiles, sessionId, playerName),
+                allowOptOut: privacy.allowOptOut,
+                friendsOnly: privacy.friendsOnly
+            };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handlePrivacy: ${error}`);
+            return this.errorResponse("InternalError", "Failed to update privacy settings");
+        }
+    }
+
+    /**
+     * False for profiles that opted out, in the config or with the privacy route; their data never leaves the server.
+     */
+    public isShared(profileId: string, playerName: string): boolean 
+    {
+        const privacy = this.configService.getConfig().privacy;
+        return !this.optedOut.has(profileId) && !this.isListed(privacy.optedOutProfiles, profileId, playerName);
+    }
+
+    /**
+     * Whether a shared profile may be returned to the given requester. Always true unless friendsOnly is on;
+     * then only the requester's own profile and its friends are, and requests without a known session get nothing.
+     */
+    public canSee(sessionId: string | undefined, playerName: string): boolean 
+    {
+        const privacy = this.configService.getConfig().privacy;
+        if (!privacy.friendsOnly) 
+        {
+            return true;
+        }
+
+        const requesterName = sessionId
+            ? this.profileHelper.getProfiles()[sessionId]?.characters?.pmc?.Info?.Nickname
+            : undefined;
+        if (typeof requesterName !== "string") 
+        {
+            return false;
+        }
+
+        const name = playerName.toLowerCase();
+        const requester = requesterName.toLowerCase();
+        if (name === requester) 
+        {
+            return true;
+        }
+
+        const friendsKey = Object.keys(privacy.friends).find((key) => key.toLowerCase() === requester);
+        return (privacy.friends[friendsKey] ?? []).some((friend) => friend.toLowerCase() === name);
+    }
+
+    /**
+     * Config lists take nicknames (any case) or profile IDs.
+     */
+    private isListed(entries: string[], profileId: string, playerName: string): boolean 
+    {
+        const name = playerName.toLowerCase();
+        return entries.some((entry) => entry === profileId || entry.toLowerCase() === name);
+    }
+
+    private save(): void 
+    {
+        try 
+        {
+            const tempPath = `${QuestPrivacyService.privacyPath}.tmp`;
+            fs.mkdirSync(path.dirname(QuestPrivacyService.privacyPath), { recursive: true });
+            fs.writeFileSync(tempPath, JSON.stringify({ optedOut: [...this.optedOut] }, null, 4), "utf-8");
+            fs.renameSync(tempPath, QuestPrivacyService.privacyPath);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Could not save privacy settings: ${error}`);
+        }
+    }
+
+    /**
+     * Same shape as LunaStatusQuestsService.errorResponse, which cannot be injected here: it depends on this service.
+     */
+    private errorResponse(error: ErrorCode, message: string): string 
+    {
+        const response: ErrorResponse = { error, message };
+        return JSON.stringify(response);
+    }
+}
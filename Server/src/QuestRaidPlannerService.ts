@@ -0,0 +1,271 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { ILocation } from "@spt/models/eft/common/ILocation";
+import type { IQuest, IQuestCondition } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { DatabaseService } from "@spt/services/DatabaseService";
+import type {
+    PlayerProfile,
+    RaidMapPlan,
+    RaidObjective,
+    RaidPlanRequest,
+    RaidPlanResponse,
+    RaidQuestEntry
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+import type { QuestObjectiveService } from "./QuestObjectiveService";
+
+interface MapInfo 
+{
+    /** Lowercase location ID as used by quest conditions, e.g. "bigmap". */
+    id: string;
+    /** Location database ID, used for the localized map name. */
+    databaseId: string;
+}
+
+/**
+ * Lists, per map, the started quests that still have unfinished objectives there,
+ * so a squad can pick the map that advances the most quests for everyone.
+ */
+@injectable()
+export class QuestRaidPlannerService 
+{
+    // Objectives that are never done in raid, whatever the quest's location says
+    private static readonly nonRaidConditionTypes = new Set([
+        "HandoverItem",
+        "FindItem",
+        "Level",
+        "Skill",
+        "TraderLoyalty",
+        "TraderStanding",
+        "WeaponAssembly",
+        "Quest"
+    ]);
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("DatabaseService") private databaseService: DatabaseService,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestObjectiveService") private objectiveService: QuestObjectiveService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns the raid plan for one map, or for every map when no map ID is given.
+     */
+    public async handleGetRaidPlan(request: RaidPlanRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const maps = this.getMaps();
+            let requestedMaps = [...maps.values()];
+
+            if (request?.mapId !== undefined) 
+            {
+                const map = typeof request.mapId === "string" ? maps.get(request.mapId.toLowerCase()) : undefined;
+                if (!map) 
+                {
+                    return this.questStatusService.errorResponse("MapNotFound", `Unknown map ID: ${request.mapId}`, [
+                        `${request.mapId}`
+                    ]);
+                }
+
+                requestedMaps = [map];
+            }
+
+            const players = this.questStatusService.resolveRequestedPlayers(request?.profiles, sessionId);
+            if (typeof players === "string") 
+            {
+                return players;
+            }
+
+            const locale = this.questLocaleService.resolveLocale(request?.locale, sessionId);
+            const response = this.buildRaidPlan(requestedMaps, maps, players, locale, request?.mapId === undefined);
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetRaidPlan: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute raid plan");
+        }
+    }
+
+    private buildRaidPlan(
+        requestedMaps: MapInfo[],
+        maps: Map<string, MapInfo>,
+        players: PlayerProfile[],
+        locale: string,
+        skipEmptyMaps: boolean
+    ): RaidPlanResponse 
+    {
+        const plans = new Map<string, RaidMapPlan>();
+        for (const map of requestedMaps) 
+        {
+            plans.set(map.id, {
+                mapId: map.id,
+                mapName: this.questLocaleService.getText(`${map.databaseId} Name`, locale) ?? map.id,
+                questCount: 0,
+                profiles: {}
+            });
+        }
+
+        const response: RaidPlanResponse = { maps: [], anyLocation: {} };
+        const quests: IQuest[] = this.questHelper.getQuestsFromDb();
+
+        for (const player of players) 
+        {
+            for (const quest of quests) 
+            {
+                if (this.questHelper.getQuestStatus(player.pmcData, quest._id) !== QuestStatus.Started) 
+                {
+                    continue;
+                }
+
+                const conditionMaps = this.getConditionMaps(quest, maps);
+                const objectives: RaidObjective[] = this.objectiveService
+                    .getObjectiveProgress(quest, player.pmcData, locale)
+                    .filter((objective) => !objective.completed)
+                    .map((objective) => ({
+                        ...objective,
+                        anyLocation: !conditionMaps.has(objective.conditionId)
+                    }));
+
+                if (objectives.length === 0) 
+                {
+                    continue;
+                }
+
+                const anywhere = objectives.filter((objective) => objective.anyLocation);
+                const entry = (mapObjectives: RaidObjective[]): RaidQuestEntry => ({
+                    questId: quest._id,
+                    questName: this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id,
+                    traderId: quest.traderId,
+                    anyLocation: mapObjectives.length === 0,
+                    objectives: [...mapObjectives, ...anywhere]
+                });
+
+                if (anywhere.length === objectives.length) 
+                {
+                    (response.anyLocation[player.playerName] ??= []).push(entry([]));
+                    continue;
+                }
+
+                for (const plan of plans.values()) 
+                {
+                    const onMap = objectives.filter((objective) =>
+                        conditionMaps.get(objective.conditionId)?.has(plan.mapId)
+                    );
+
+                    if (onMap.length > 0) 
+                    {
+                        (plan.profiles[player.playerName] ??= []).push(entry(onMap));
+                        plan.questCount++;
+                    }
+                }
+            }
+        }
+
+        response.maps = [...plans.values()]
+            .filter((plan) => !skipEmptyMaps || plan.questCount > 0)
+            .sort((a, b) => b.questCount - a.questCount || a.mapName.localeCompare(b.mapName));
+        return response;
+    }
+
+    /**
+     * Lowercase IDs of the maps any of the quest's objectives is tied to; empty when it can be done anywhere.
+     */
+    public getQuestMapIds(quest: IQuest): string[] 
+    {
+        const mapIds = new Set<string>();
+        for (const conditionMaps of this.getConditionMaps(quest, this.getMaps()).values()) 
+        {
+            conditionMaps.forEach((mapId) => mapIds.add(mapId));
+        }
+
+        return [...mapIds].sort();
+    }
+
+    /**
+     * Maps each AvailableForFinish condition tied to a location to the map IDs it can be done on.
+     * Explicit Location counter conditions win; otherwise in-raid objectives inherit the quest's own location.
+     */
+    private getConditionMaps(quest: IQuest, maps: Map<string, MapInfo>): Map<string, Set<string>> 
+    {
+        const result = new Map<string, Set<string>>();
+        const questMap = typeof quest.location === "string" ? maps.get(quest.location.toLowerCase()) : undefined;
+
+        for (const condition of quest?.conditions?.AvailableForFinish ?? []) 
+        {
+            if (!condition?.id) 
+            {
+                continue;
+            }
+
+            const locationMaps = this.getLocationTargets(condition, maps);
+            if (locationMaps.size > 0) 
+            {
+                result.set(condition.id, locationMaps);
+            }
+            else if (questMap && !QuestRaidPlannerService.nonRaidConditionTypes.has(condition.conditionType)) 
+            {
+                result.set(condition.id, new Set([questMap.id]));
+            }
+        }
+
+        return result;
+    }
+
+    private getLocationTargets(condition: IQuestCondition, maps: Map<string, MapInfo>): Set<string> 
+    {
+        const targets = new Set<string>();
+
+        for (const counterCondition of condition.counter?.conditions ?? []) 
+        {
+            if (counterCondition?.conditionType !== "Location") 
+            {
+                continue;
+            }
+
+            const values = Array.isArray(counterCondition.target) ? counterCondition.target : [counterCondition.target];
+            for (const value of values) 
+            {
+                const map = typeof value === "string" ? maps.get(value.toLowerCase()) : undefined;
+                if (map) 
+                {
+                    targets.add(map.id);
+                }
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Known maps keyed by both their lowercase location ID and their database ID.
+     */
+    private getMaps(): Map<string, MapInfo> 
+    {
+        const maps = new Map<string, MapInfo>();
+
+        // Besides the maps, the locations table holds entries without a base, which are skipped below
+        const locations = Object.values(this.databaseService.getLocations()) as ILocation[];
+        for (const location of locations) 
+        {
+            const base = location?.base;
+            if (typeof base?.Id !== "string" || typeof base?._Id !== "string" || base.Id.toLowerCase() === "hideout") 
+            {
+                continue;
+            }
+
+            const map: MapInfo = { id: base.Id.toLowerCase(), databaseId: base._Id };
+            maps.set(map.id, map);
+            maps.set(map.databaseId.toLowerCase(), map);
+        }
+
+        return maps;
+    }
+}
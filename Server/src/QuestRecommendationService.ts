@@ -0,0 +1,250 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type {
+    PrerequisiteInfo,
+    ProfileQuestStatuses,
+    QuestRecommendation,
+    QuestRecommendationsResponse
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+interface QuestDependents 
+{
+    /** The prerequisite map the dependents were built from; replaced whenever the quest database changes. */
+    prerequisites: ReadonlyMap<string, PrerequisiteInfo[]>;
+    dependents: Map<string, string[]>;
+}
+
+/**
+ * Ranks the quests a profile can work on by how many locked quests they lead to, walking the prerequisite
+ * graph forwards. Kappa-required quests weigh double.
+ */
+@injectable()
+export class QuestRecommendationService 
+{
+    private questDependents?: QuestDependents;
+
+    private static readonly defaultLimit = 20;
+    private static readonly candidateStatuses: number[] = [
+        QuestStatus.AvailableForStart,
+        QuestStatus.Started,
+        QuestStatus.AvailableForFinish
+    ];
+
+    private static readonly pendingStatuses: number[] = [QuestStatus.Locked, QuestStatus.AvailableAfter];
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns the profile's Available and Started quests, highest score first.
+     */
+    public async handleGetRecommendations(
+        nickname: string,
+        limit?: string,
+        locale?: string,
+        sessionId?: string
+    ): Promise<string> 
+    {
+        try 
+        {
+            const maxEntries = limit === undefined ? QuestRecommendationService.defaultLimit : Number(limit);
+            if (!Number.isInteger(maxEntries) || maxEntries < 1) 
+            {
+                return this.questStatusService.errorResponse("InvalidRequest", "limit must be a positive integer");
+            }
+
+            const player = this.questStatusService
+                .getPlayerProfilesFor(sessionId)
+                .find((candidate) => candidate.playerName === nickname);
+            if (!player) 
+            {
+                return this.questStatusService.errorResponse("ProfileNotFound", `Unknown profile: ${nickname}`, [
+                    nickname
+                ]);
+            }
+
+            this.questStatusService.prepareCaches();
+
+            const resolvedLocale = this.questLocaleService.resolveLocale(locale, sessionId);
+            const statuses = this.questStatusService.getProfileQuestStatuses(player.pmcData, undefined, resolvedLocale);
+            const recommendations = this.getRecommendations(statuses, resolvedLocale);
+
+            const response: QuestRecommendationsResponse = {
+                playerName: player.playerName,
+                total: recommendations.length,
+                recommendations: recommendations.slice(0, maxEntries)
+            };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetRecommendations: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute recommendations");
+        }
+    }
+
+    private getRecommendations(statuses: ProfileQuestStatuses, locale: string): QuestRecommendation[] 
+    {
+        const prerequisites = this.questStatusService.getQuestPrerequisites();
+        const dependents = this.getQuestDependents();
+        const kappaQuests = this.questStatusService.getKappaQuests();
+        const recommendations: QuestRecommendation[] = [];
+
+        for (const quest of this.questHelper.getQuestsFromDb() as IQuest[]) 
+        {
+            const status = statuses[quest._id]?.status;
+            if (!QuestRecommendationService.candidateStatuses.includes(status)) 
+            {
+                continue;
+            }
+
+            const unlocked = this.getUnlockedQuests(quest._id, statuses, dependents);
+            const kappaUnlocks = [...unlocked].filter((questId) => kappaQuests.has(questId)).length;
+            const kappaRequired = kappaQuests.has(quest._id);
+
+            // A direct dependent unlocks once every other quest prerequisite is already in an accepted status
+            const directUnlockIds = (dependents.get(quest._id) ?? []).filter(
+                (dependentId) =>
+                    unlocked.has(dependentId) &&
+                    (prerequisites.get(dependentId) ?? []).every(
+                        (prereq) =>
+                            prereq.id === quest._id || prereq.statuses.includes(statuses[prereq.id]?.status)
+                    )
+            );
+
+            const recommendation: QuestRecommendation = {
+                questId: quest._id,
+                questName: this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id,
+                traderId: quest.traderId,
+                status,
+                score: unlocked.size + kappaUnlocks + (kappaRequired ? 1 : 0),
+                unlocks: unlocked.size,
+                directUnlockIds,
+                kappaRequired,
+                kappaUnlocks,
+                explanation: ""
+            };
+            recommendation.explanation = this.getExplanation(recommendation, locale);
+            recommendations.push(recommendation);
+        }
+
+        return recommendations.sort(
+            (a, b) =>
+                b.score - a.score ||
+                b.directUnlockIds.length - a.directUnlockIds.length ||
+                b.status - a.status ||
+                a.questName.localeCompare(b.questName)
+        );
+    }
+
+    /**
+     * Locked quests reachable from a quest through other locked quests. Chains that pass through a quest the
+     * profile has already unlocked or finished are not gated by this quest and are not followed.
+     */
+    private getUnlockedQuests(
+        questId: string,
+        statuses: ProfileQuestStatuses,
+        dependents: Map<string, string[]>
+    ): Set<string> 
+    {
+        const unlocked = new Set<string>();
+        const pending = [...(dependents.get(questId) ?? [])];
+
+        while (pending.length > 0) 
+        {
+            const dependentId = pending.pop();
+            if (
+                unlocked.has(dependentId) ||
+                !QuestRecommendationService.pendingStatuses.includes(statuses[dependentId]?.status)
+            ) 
+            {
+                continue;
+            }
+
+            unlocked.add(dependentId);
+            pending.push(...(dependents.get(dependentId) ?? []));
+        }
+
+        return unlocked;
+    }
+
+    private getExplanation(recommendation: QuestRecommendation, locale: string): string 
+    {
+        const parts: string[] = [];
+
+        if (recommendation.status === QuestStatus.AvailableForFinish) 
+        {
+            parts.push(this.questLocaleService.formatPhrase("recommendReadyToFinish", locale, {}));
+        }
+
+        if (recommendation.unlocks > 0) 
+        {
+            parts.push(
+                this.questLocaleService.formatPhrase("recommendUnlocks", locale, {
+                    count: recommendation.unlocks,
+                    direct: recommendation.directUnlockIds.length
+                })
+            );
+        }
+        else 
+        {
+            parts.push(this.questLocaleService.formatPhrase("recommendNoUnlocks", locale, {}));
+        }
+
+        if (recommendation.kappaUnlocks > 0) 
+        {
+            parts.push(
+                this.questLocaleService.formatPhrase("recommendKappaUnlocks", locale, {
+                    count: recommendation.kappaUnlocks
+                })
+            );
+        }
+
+        if (recommendation.kappaRequired) 
+        {
+            parts.push(this.questLocaleService.formatPhrase("recommendKappaRequired", locale, {}));
+        }
+
+        return parts.join("; ");
+    }
+
+    /**
+     * The prerequisite graph turned around: quests keyed by the quests that require them.
+     */
+    private getQuestDependents(): Map<string, string[]> 
+    {
+        const prerequisites = this.questStatusService.getQuestPrerequisites();
+        if (this.questDependents?.prerequisites === prerequisites) 
+        {
+            return this.questDependents.dependents;
+        }
+
+        const dependents = new Map<string, string[]>();
+        for (const [questId, prereqs] of prerequisites) 
+        {
+            for (const prereq of prereqs) 
+            {
+                const list = dependents.get(prereq.id) ?? [];
+                if (!list.includes(questId)) 
+                {
+                    list.push(questId);
+                }
+
+                dependents.set(prereq.id, list);
+            }
+        }
+
+        this.questDependents = { prerequisites, dependents };
+        return dependents;
+    }
+}
@@ -0,0 +1,218 @@
+import { inject, injectable } from "tsyringe";
+import type { IPmcData } from "@spt/models/eft/common/IPmcData";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import type {
+    IChangeCost,
+    IPmcDataRepeatableQuest,
+    IRepeatableQuest
+} from "@spt/models/eft/common/tables/IRepeatableQuests";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type {
+    RepeatableChangeState,
+    RepeatableQuestInfo,
+    RepeatableQuestsRequest,
+    RepeatableQuestsResponse
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+import type { QuestObjectiveService } from "./QuestObjectiveService";
+import type { QuestRaidPlannerService } from "./QuestRaidPlannerService";
+
+/**
+ * Reports the daily, weekly and Scav repeatable quests each profile holds. They are generated per profile and kept in
+ * its RepeatableQuests pools rather than the quest database, so the statuses routes never list them.
+ */
+@injectable()
+export class QuestRepeatableService 
+{
+    // Pools in the order clients list them; unknown pools go last
+    private static readonly poolOrder = ["Daily", "Daily_Savage", "Weekly"];
+    private static readonly itemConditionTypes = new Set(["HandoverItem", "FindItem"]);
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestObjectiveService") private objectiveService: QuestObjectiveService,
+        @inject("QuestRaidPlannerService") private raidPlannerService: QuestRaidPlannerService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns every profile's active repeatable quests, with open quests of different profiles that share a map or
+     * a target flagged as overlaps.
+     */
+    public async handleGetRepeatables(request: RepeatableQuestsRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const players = this.questStatusService.resolveRequestedPlayers(request?.profiles, sessionId);
+            if (typeof players === "string") 
+            {
+                return players;
+            }
+
+            const locale = this.questLocaleService.resolveLocale(request?.locale, sessionId);
+            const response: RepeatableQuestsResponse = { profiles: {} };
+            for (const player of players) 
+            {
+                response.profiles[player.playerName] = this.getRepeatableQuests(player.pmcData, locale);
+            }
+
+            this.flagOverlaps(response);
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetRepeatables: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute repeatable quests");
+        }
+    }
+
+    private getRepeatableQuests(pmcData: IPmcData, locale: string): RepeatableQuestInfo[] 
+    {
+        const pools: IPmcDataRepeatableQuest[] = Array.isArray(pmcData.RepeatableQuests)
+            ? pmcData.RepeatableQuests
+            : [];
+        const result: RepeatableQuestInfo[] = [];
+
+        for (const pool of [...pools].sort((a, b) => this.getPoolRank(a?.name) - this.getPoolRank(b?.name))) 
+        {
+            const activeQuests: IRepeatableQuest[] = Array.isArray(pool?.activeQuests) ? pool.activeQuests : [];
+            for (const quest of activeQuests) 
+            {
+                if (typeof quest?._id !== "string") 
+                {
+                    continue;
+                }
+
+                const traderId = typeof quest.traderId === "string" ? quest.traderId : "";
+                result.push({
+                    repeatable: true,
+                    questId: quest._id,
+                    questName: this.questLocaleService.getText(`${quest.name}`, locale) ?? quest.type ?? quest._id,
+                    pool: `${pool.name}`,
+                    type: `${quest.type}`,
+                    traderId,
+                    traderName: this.questLocaleService.getTraderName(traderId, locale),
+                    // Offered quests have no entry in the profile's quest list until they are accepted
+                    status:
+                        pmcData.Quests?.find((questState) => questState.qid === quest._id)?.status ??
+                        QuestStatus.AvailableForStart,
+                    mapIds: this.raidPlannerService.getQuestMapIds(quest),
+                    targets: this.getTargets(quest),
+                    objectives: this.objectiveService.getObjectiveProgress(quest, pmcData, locale),
+                    expiresAt: typeof pool.endTime === "number" && pool.endTime > 0 ? pool.endTime * 1000 : undefined,
+                    change: this.getChangeState(pool, quest),
+                    overlaps: []
+                });
+            }
+        }
+
+        return result;
+    }
+
+    private getPoolRank(name: unknown): number 
+    {
+        const rank = QuestRepeatableService.poolOrder.indexOf(`${name}`);
+        return rank >= 0 ? rank : QuestRepeatableService.poolOrder.length;
+    }
+
+    /**
+     * The pool's change requirements are keyed by quest ID; the quest carries the same costs as a fallback.
+     */
+    private getChangeState(pool: IPmcDataRepeatableQuest, quest: IRepeatableQuest): RepeatableChangeState 
+    {
+        const requirement: Pick<IRepeatableQuest, "changeCost" | "changeStandingCost"> =
+            pool.changeRequirement?.[quest._id] ?? quest;
+        const changeCost: IChangeCost[] = Array.isArray(requirement?.changeCost) ? requirement.changeCost : [];
+
+        return {
+            freeChangesAvailable: Number(pool.freeChangesAvailable) || 0,
+            freeChanges: Number(pool.freeChanges) || 0,
+            changeCost: changeCost
+                .filter((cost) => typeof cost?.templateId === "string")
+                .map((cost) => ({ templateId: cost.templateId, count: Number(cost.count) || 0 })),
+            changeStandingCost: Number(requirement?.changeStandingCost) || 0
+        };
+    }
+
+    /**
+     * Kill targets (boss roles when set, "Any" left out) and the items of hand-over and find objectives.
+     */
+    private getTargets(quest: IQuest): string[] 
+    {
+        const targets = new Set<string>();
+
+        for (const condition of quest?.conditions?.AvailableForFinish ?? []) 
+        {
+            const values: unknown[] = [];
+            if (QuestRepeatableService.itemConditionTypes.has(condition?.conditionType)) 
+            {
+                values.push(...(Array.isArray(condition.target) ? condition.target : [condition.target]));
+            }
+
+            for (const counterCondition of condition?.counter?.conditions ?? []) 
+            {
+                if (counterCondition?.conditionType !== "Kills") 
+                {
+                    continue;
+                }
+
+                const roles: unknown[] = Array.isArray(counterCondition.savageRole) ? counterCondition.savageRole : [];
+                values.push(...(roles.length > 0 ? roles : [counterCondition.target]));
+            }
+
+            for (const value of values) 
+            {
+                if (typeof value === "string" && value.length > 0 && value !== "Any") 
+                {
+                    targets.add(value);
+                }
+            }
+        }
+
+        return [...targets].sort();
+    }
+
+    /**
+     * Pairs up the open quests of different profiles that share a map, or a target on maps both can be done on.
+     * Finished quests are left out, there is nothing left to coordinate.
+     */
+    private flagOverlaps(response: RepeatableQuestsResponse): void 
+    {
+        const open = Object.entries(response.profiles).flatMap(([playerName, quests]) =>
+            quests
+                .filter((quest) => quest.status === QuestStatus.AvailableForStart || quest.status === QuestStatus.Started)
+                .map((quest) => ({ playerName, quest }))
+        );
+
+        for (const entry of open) 
+        {
+            for (const other of open) 
+            {
+                if (other.playerName === entry.playerName) 
+                {
+                    continue;
+                }
+
+                const mapIds = entry.quest.mapIds.filter((mapId) => other.quest.mapIds.includes(mapId));
+                const targets = entry.quest.targets.filter((target) => other.quest.targets.includes(target));
+                // A shared target only helps when both quests can be done in the same raid
+                const sameRaid =
+                    mapIds.length > 0 || entry.quest.mapIds.length === 0 || other.quest.mapIds.length === 0;
+                if (sameRaid && (mapIds.length > 0 || targets.length > 0)) 
+                {
+                    entry.quest.overlaps.push({
+                        playerName: other.playerName,
+                        questId: other.quest.questId,
+                        questName: other.quest.questName,
+                        mapIds,
+                        targets
+                    });
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,189 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { unreachableQuestStatus } from "./models/QuestStatusModels";
+import type {
+    PlayerProfile,
+    QuestStatusInfo,
+    SquadBlockedMember,
+    SquadPlanRequest,
+    SquadPlanResponse,
+    SquadQuestEntry,
+    SquadQuestGroup
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+/**
+ * Cross-references the quests of a group of profiles before a raid: which quests the squad can progress together,
+ * and which members are still blocked from them.
+ */
+@injectable()
+export class QuestSquadPlannerService 
+{
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns the quests at least one member can progress, grouped by how many members have them started
+     * and how many can start them.
+     */
+    public async handleGetSquadPlan(request: SquadPlanRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const profiles = request?.profiles;
+            if (!Array.isArray(profiles) || profiles.length === 0 || profiles.some((name) => typeof name !== "string")) 
+            {
+                return this.questStatusService.errorResponse(
+                    "InvalidRequest",
+                    "Request body must contain a non-empty profiles array"
+                );
+            }
+
+            const order = request.order ?? "desc";
+            if (order !== "desc" && order !== "asc") 
+            {
+                return this.questStatusService.errorResponse("InvalidRequest", "order must be \"desc\" or \"asc\"");
+            }
+
+            const requestedPlayers = this.questStatusService.resolveRequestedPlayers(profiles, sessionId);
+            if (typeof requestedPlayers === "string") 
+            {
+                return requestedPlayers;
+            }
+
+            // Members stay in the requested order
+            const members: string[] = [...new Set(profiles)];
+            const players = new Map(requestedPlayers.map((player) => [player.playerName, player]));
+
+            this.questStatusService.prepareCaches();
+
+            const locale = this.questLocaleService.resolveLocale(request.locale, sessionId);
+            const statuses = this.questStatusService.getQuestStatuses(
+                undefined,
+                locale,
+                members.map((member) => players.get(member))
+            );
+            const groups = new Map<string, SquadQuestGroup>();
+
+            for (const quest of this.questHelper.getQuestsFromDb()) 
+            {
+                const entry: SquadQuestEntry = {
+                    questId: quest._id,
+                    questName: this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id,
+                    traderId: quest.traderId,
+                    started: [],
+                    available: [],
+                    blocked: []
+                };
+
+                for (const member of members) 
+                {
+                    const info = statuses[member]?.[quest._id];
+
+                    switch (info?.status) 
+                    {
+                        // A quest ready to hand in is still in progress for the member
+                        case QuestStatus.Started:
+                        case QuestStatus.AvailableForFinish:
+                            entry.started.push(member);
+                            break;
+                        case QuestStatus.AvailableForStart:
+                            entry.available.push(member);
+                            break;
+                        case QuestStatus.Locked:
+                        case QuestStatus.AvailableAfter:
+                        case unreachableQuestStatus:
+                            entry.blocked.push(this.getBlockedMember(players.get(member), quest._id, info, locale));
+                            break;
+                    }
+                }
+
+                if (entry.started.length + entry.available.length === 0) 
+                {
+                    continue;
+                }
+
+                const key = `${entry.started.length}/${entry.available.length}`;
+                let group = groups.get(key);
+                if (!group) 
+                {
+                    group = {
+                        started: entry.started.length,
+                        available: entry.available.length,
+                        benefitCount: entry.started.length + entry.available.length,
+                        quests: []
+                    };
+                    groups.set(key, group);
+                }
+
+                group.quests.push(entry);
+            }
+
+            const response: SquadPlanResponse = {
+                profiles: members,
+                groups: this.sortGroups([...groups.values()], order)
+            };
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetSquadPlan: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute squad plan");
+        }
+    }
+
+    /**
+     * Quest prerequisites come from getLockedReason; level, trader and timer conditions from the status' lockReasons.
+     * Unreachable quests keep their own reason, since their prerequisite blocker would be misleading.
+     */
+    private getBlockedMember(
+        player: PlayerProfile,
+        questId: string,
+        info: QuestStatusInfo,
+        locale: string
+    ): SquadBlockedMember 
+    {
+        if (info.status === unreachableQuestStatus) 
+        {
+            return {
+                playerName: player.playerName,
+                status: QuestStatus.Locked,
+                lockedReason: info.unreachableReason?.message,
+                unreachableReason: info.unreachableReason
+            };
+        }
+
+        return {
+            playerName: player.playerName,
+            status: info.status,
+            lockedReason: this.questStatusService.getLockedReason(questId, player.pmcData, locale),
+            lockReasons: info.lockReasons
+        };
+    }
+
+    /**
+     * Orders groups by how many members benefit, then by how many already have the quests started.
+     * Quests inside a group are ordered by name.
+     */
+    private sortGroups(groups: SquadQuestGroup[], order: "desc" | "asc"): SquadQuestGroup[] 
+    {
+        const direction = order === "desc" ? -1 : 1;
+
+        for (const group of groups) 
+        {
+            group.quests.sort((a, b) => a.questName.localeCompare(b.questName));
+        }
+
+        return groups.sort(
+            (a, b) => direction * (a.benefitCount - b.benefitCount) || direction * (a.started - b.started)
+        );
+    }
+}
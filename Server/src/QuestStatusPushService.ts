@@ -0,0 +1,297 @@
+import type { IncomingMessage } from "node:http";
+import { inject, injectable } from "tsyringe";
+import { WebSocket } from "ws";
+import type { IWebSocketConnectionHandler } from "@spt/servers/ws/IWebSocketConnectionHandler";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type {
+    QuestStatusChange,
+    QuestStatusEventMessage,
+    QuestStatusEventType,
+    QuestStatusSubscribeMessage
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { QuestStatusSnapshotService } from "./QuestStatusSnapshotService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+import type { QuestPrivacyService } from "./QuestPrivacyService";
+
+interface Subscription 
+{
+    /** The connecting client's session (profile ID), used for friends-only filtering. */
+    sessionId?: string;
+    profiles?: Set<string>;
+    questIds?: Set<string>;
+}
+
+/**
+ * Pushes quest status change events to WebSocket clients connected on /LunaStatusQuests/ws.
+ * Changes are detected by the snapshot diff, so any recomputation (polling, quest actions or the
+ * refresh timer below) results in events.
+ */
+@injectable()
+export class QuestStatusPushService implements IWebSocketConnectionHandler 
+{
+    private subscriptions: Map<WebSocket, Subscription> = new Map();
+    private refreshTimer?: NodeJS.Timeout;
+    private pendingRefresh?: NodeJS.Timeout;
+
+    // Recompute periodically while someone listens, so changes are pushed even if no client polls
+    private static readonly refreshIntervalMs = 10 * 1000;
+    // Delay after a quest action so the game has finished applying it before statuses are recomputed
+    private static readonly questActionDelayMs = 1000;
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestStatusSnapshotService") snapshotService: QuestStatusSnapshotService,
+        @inject("ModConfigService") private configService: ModConfigService,
+        @inject("QuestPrivacyService") private privacyService: QuestPrivacyService
+    ) 
+    {
+        snapshotService.addChangeListener((changes) => this.broadcastChanges(changes));
+    }
+
+    public getSocketId(): string 
+    {
+        return "LunaStatusQuests";
+    }
+
+    public getHookUrl(): string 
+    {
+        return "/LunaStatusQuests/ws";
+    }
+
+    public async onConnection(ws: WebSocket, req: IncomingMessage): Promise<void> 
+    {
+        this.subscriptions.set(ws, { sessionId: this.getSessionId(req) });
+        this.logger.debug(`[LunaStatusQuestsServer] WebSocket client connected from ${req.socket.remoteAddress}`);
+
+        ws.on("message", (data) => this.handleMessage(ws, data.toString()));
+        ws.on("close", () => 
+        {
+            this.subscriptions.delete(ws);
+            this.updateRefreshTimer();
+        });
+        ws.on("error", (error) => 
+        {
+            this.logger.debug(`[LunaStatusQuestsServer] WebSocket client error: ${error}`);
+        });
+
+        this.updateRefreshTimer();
+    }
+
+    /**
+     * Called with the body of every item event request; schedules a recomputation when it contains quest actions
+     * so subscribers, the quest history and webhooks hear about accepted, handed-in or completed quests right away.
+     */
+    public handleItemEvents(info: { data?: unknown }): void 
+    {
+        const config = this.configService.getConfig();
+        const hasListeners = this.subscriptions.size > 0 || config.history.enabled || config.webhooks.enabled;
+        if (!hasListeners || !Array.isArray(info?.data)) 
+        {
+            return;
+        }
+
+        const hasQuestAction = info.data.some((action: unknown) => this.isQuestAction(action));
+
+        if (hasQuestAction && !this.pendingRefresh) 
+        {
+            this.pendingRefresh = setTimeout(() => 
+            {
+                this.pendingRefresh = undefined;
+                this.refresh();
+            }, QuestStatusPushService.questActionDelayMs);
+        }
+    }
+
+    /**
+     * QuestAccept, QuestHandover, QuestComplete and the other quest actions of an item event request.
+     */
+    private isQuestAction(action: unknown): action is { Action: string } 
+    {
+        return (
+            typeof action === "object" &&
+            action !== null &&
+            "Action" in action &&
+            typeof action.Action === "string" &&
+            action.Action.startsWith("Quest")
+        );
+    }
+
+    private handleMessage(ws: WebSocket, raw: string): void 
+    {
+        let message: QuestStatusSubscribeMessage;
+
+        try 
+        {
+            message = JSON.parse(raw);
+        }
+        catch 
+        {
+            this.send(ws, { type: "error", message: "Messages must be JSON" });
+            return;
+        }
+
+        if (message?.type !== "subscribe") 
+        {
+            this.send(ws, { type: "error", message: `Unknown message type: ${message?.type}` });
+            return;
+        }
+
+        const subscription: Subscription = {
+            sessionId: this.subscriptions.get(ws)?.sessionId,
+            profiles: this.toFilter(message.profiles),
+            questIds: this.toFilter(message.questIds)
+        };
+        this.subscriptions.set(ws, subscription);
+
+        this.send(ws, {
+            type: "subscribed",
+            profiles: subscription.profiles ? [...subscription.profiles] : "*",
+            questIds: subscription.questIds ? [...subscription.questIds] : "*"
+        });
+    }
+
+    /**
+     * SPT clients send their session as the PHPSESSID cookie; other clients can add ?sessionId= to the URL.
+     */
+    private getSessionId(req: IncomingMessage): string | undefined 
+    {
+        const cookie = req.headers.cookie
+            ?.split(";")
+            .map((part) => part.trim().split("="))
+            .find(([name]) => name === "PHPSESSID");
+        if (cookie?.[1]) 
+        {
+            return cookie[1];
+        }
+
+        const query = req.url?.split("?")[1];
+        return query ? (new URLSearchParams(query).get("sessionId") ?? undefined) : undefined;
+    }
+
+    private toFilter(values: unknown): Set<string> | undefined 
+    {
+        if (!Array.isArray(values) || values.length === 0) 
+        {
+            return undefined;
+        }
+
+        return new Set(values.filter((value): value is string => typeof value === "string"));
+    }
+
+    private broadcastChanges(changes: QuestStatusChange[]): void 
+    {
+        if (this.subscriptions.size === 0) 
+        {
+            return;
+        }
+
+        const timestamp = Date.now();
+        const events: QuestStatusEventMessage[] = [];
+
+        for (const change of changes) 
+        {
+            const event = this.getEventType(change);
+            if (!event) 
+            {
+                continue;
+            }
+
+            events.push({
+                type: "questStatusChanged",
+                event,
+                playerName: change.playerName,
+                questId: change.questId,
+                questName: change.current.questName,
+                status: change.current.status,
+                previousStatus: this.questStatusService.toSchemaV1Status(change.previous?.status),
+                revision: change.revision,
+                timestamp
+            });
+        }
+
+        for (const [ws, subscription] of this.subscriptions) 
+        {
+            for (const event of events) 
+            {
+                if (
+                    this.privacyService.canSee(subscription.sessionId, event.playerName) &&
+                    (!subscription.profiles || subscription.profiles.has(event.playerName)) &&
+                    (!subscription.questIds || subscription.questIds.has(event.questId))
+                ) 
+                {
+                    this.send(ws, event);
+                }
+            }
+        }
+    }
+
+    /**
+     * Maps a status transition to the event clients care about. Other transitions (e.g. lock reason text changes)
+     * are not pushed.
+     */
+    private getEventType(change: QuestStatusChange): QuestStatusEventType | undefined 
+    {
+        const previousStatus = change.previous?.status;
+        const status = change.current.status;
+
+        if (previousStatus === status) 
+        {
+            return undefined;
+        }
+
+        switch (status) 
+        {
+            case QuestStatus.Started:
+                return "Started";
+            case QuestStatus.AvailableForFinish:
+                return "AvailableForFinish";
+            case QuestStatus.Success:
+                return "Success";
+            case QuestStatus.Fail:
+            case QuestStatus.FailRestartable:
+            case QuestStatus.MarkedAsFailed:
+                return "Fail";
+            case QuestStatus.AvailableForStart:
+                return previousStatus === QuestStatus.Locked ? "Unlocked" : undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    private updateRefreshTimer(): void 
+    {
+        if (this.subscriptions.size > 0 && !this.refreshTimer) 
+        {
+            this.refreshTimer = setInterval(() => this.refresh(), QuestStatusPushService.refreshIntervalMs);
+            this.refreshTimer.unref();
+        }
+        else if (this.subscriptions.size === 0 && this.refreshTimer) 
+        {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
+    private refresh(): void 
+    {
+        try 
+        {
+            this.questStatusService.refreshSnapshot();
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error refreshing quest statuses for push: ${error}`);
+        }
+    }
+
+    private send(ws: WebSocket, message: object): void 
+    {
+        if (ws.readyState === WebSocket.OPEN) 
+        {
+            ws.send(JSON.stringify(message));
+        }
+    }
+}
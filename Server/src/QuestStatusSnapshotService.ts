@@ -0,0 +1,285 @@
+import { inject, injectable } from "tsyringe";
+import type {
+    QuestStatusChange,
+    QuestStatusInfo,
+    QuestStatusResponse,
+    QuestStatusSyncResponse
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+interface RemovedEntry 
+{
+    revision: number;
+    playerName: string;
+    // Undefined when the whole profile was removed
+    questId?: string;
+}
+
+interface SnapshotState 
+{
+    revision: number;
+    oldestDeltaRevision: number;
+    snapshot: QuestStatusResponse;
+    entryRevisions: Map<string, Map<string, number>>;
+    removedEntries: RemovedEntry[];
+}
+
+/**
+ * Keeps the last computed QuestStatusResponse together with a revision number per profile/quest entry,
+ * so clients can ask for only the entries that changed since a revision they already hold.
+ * Each locale has its own snapshot and revisions, since names and lock reasons differ per language.
+ */
+@injectable()
+export class QuestStatusSnapshotService 
+{
+    private states: Map<string, SnapshotState> = new Map();
+    private changeListeners: ((changes: QuestStatusChange[]) => void)[] = [];
+
+    // Tokens from a previous server run must never be answered with a delta
+    private readonly epoch = Date.now().toString(36);
+    // Removals older than this many revisions are forgotten; older tokens fall back to a full snapshot
+    private static readonly maxRetainedRevisions = 1000;
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    public getRevision(locale = this.questLocaleService.getDefaultLocale()): number 
+    {
+        return this.states.get(locale)?.revision ?? 0;
+    }
+
+    /**
+     * Registers a callback that receives every changed entry each time a new revision is recorded
+     * for the server's default locale. Entries seen for the first time are not reported as changes.
+     */
+    public addChangeListener(listener: (changes: QuestStatusChange[]) => void): void 
+    {
+        this.changeListeners.push(listener);
+    }
+
+    /**
+     * Diffs a freshly computed response against the stored snapshot and bumps the revision if anything changed.
+     * Returns the current revision.
+     */
+    public record(statuses: QuestStatusResponse, locale: string): number 
+    {
+        const state = this.getState(locale);
+        const nextRevision = state.revision + 1;
+        const changes: QuestStatusChange[] = [];
+        let changedEntries = 0;
+
+        for (const playerName in statuses) 
+        {
+            const previousQuests = state.snapshot[playerName] ?? {};
+            const currentQuests = statuses[playerName];
+
+            // Unchanged profiles hand back the same cached map, so there is nothing to diff
+            if (previousQuests === currentQuests) 
+            {
+                continue;
+            }
+
+            let questRevisions = state.entryRevisions.get(playerName);
+
+            if (!questRevisions) 
+            {
+                questRevisions = new Map();
+                state.entryRevisions.set(playerName, questRevisions);
+            }
+
+            for (const questId in currentQuests) 
+            {
+                const previous = previousQuests[questId];
+                const current = currentQuests[questId];
+
+                if (!this.isSameStatus(previous, current)) 
+                {
+                    questRevisions.set(questId, nextRevision);
+                    changedEntries++;
+
+                    if (previous) 
+                    {
+                        changes.push({ playerName, questId, previous, current, revision: nextRevision });
+                    }
+                }
+            }
+
+            for (const questId in previousQuests) 
+            {
+                if (!(questId in currentQuests)) 
+                {
+                    questRevisions.delete(questId);
+                    state.removedEntries.push({ revision: nextRevision, playerName, questId });
+                    changedEntries++;
+                }
+            }
+        }
+
+        for (const playerName in state.snapshot) 
+        {
+            if (!(playerName in statuses)) 
+            {
+                state.entryRevisions.delete(playerName);
+                state.removedEntries.push({ revision: nextRevision, playerName });
+                changedEntries++;
+            }
+        }
+
+        state.snapshot = statuses;
+
+        if (changedEntries > 0) 
+        {
+            state.revision = nextRevision;
+            this.pruneRemovedEntries(state);
+            this.logger.debug(
+                `[LunaStatusQuestsServer] Snapshot ${locale} revision ${state.revision}: ${changedEntries} entries changed`
+            );
+        }
+
+        if (changes.length > 0 && locale === this.questLocaleService.getDefaultLocale()) 
+        {
+            this.notifyChangeListeners(changes);
+        }
+
+        return state.revision;
+    }
+
+    /**
+     * Builds the sync response for a client holding the given token.
+     * Falls back to a full snapshot when the token is unknown, from another server run or locale, or too old.
+     */
+    public getChangesSince(since: number | string, locale: string): QuestStatusSyncResponse 
+    {
+        const state = this.getState(locale);
+        const sinceRevision = this.parseSince(since, locale);
+
+        if (sinceRevision === undefined || sinceRevision < state.oldestDeltaRevision || sinceRevision > state.revision) 
+        {
+            return {
+                mode: "full",
+                token: this.getToken(state, locale),
+                statuses: state.snapshot
+            };
+        }
+
+        const statuses: QuestStatusResponse = {};
+
+        for (const [playerName, questRevisions] of state.entryRevisions) 
+        {
+            for (const [questId, revision] of questRevisions) 
+            {
+                if (revision > sinceRevision) 
+                {
+                    statuses[playerName] ??= {};
+                    statuses[playerName][questId] = state.snapshot[playerName][questId];
+                }
+            }
+        }
+
+        const removedQuests: { [playerName: string]: string[] } = {};
+        const removedProfiles: string[] = [];
+
+        for (const removed of state.removedEntries) 
+        {
+            // A profile or quest that came back after being removed is already part of `statuses`
+            if (removed.revision <= sinceRevision) 
+            {
+                continue;
+            }
+
+            if (removed.questId === undefined) 
+            {
+                if (!(removed.playerName in state.snapshot)) 
+                {
+                    removedProfiles.push(removed.playerName);
+                }
+            }
+            else if (!(removed.questId in (state.snapshot[removed.playerName] ?? {}))) 
+            {
+                removedQuests[removed.playerName] ??= [];
+                removedQuests[removed.playerName].push(removed.questId);
+            }
+        }
+
+        return {
+            mode: "delta",
+            token: this.getToken(state, locale),
+            statuses,
+            removedQuests,
+            removedProfiles
+        };
+    }
+
+    private notifyChangeListeners(changes: QuestStatusChange[]): void 
+    {
+        for (const listener of this.changeListeners) 
+        {
+            try 
+            {
+                listener(changes);
+            }
+            catch (error) 
+            {
+                this.logger.error(`[LunaStatusQuestsServer] Error in quest status change listener: ${error}`);
+            }
+        }
+    }
+
+    private getState(locale: string): SnapshotState 
+    {
+        let state = this.states.get(locale);
+        if (!state) 
+        {
+            state = { revision: 0, oldestDeltaRevision: 0, snapshot: {}, entryRevisions: new Map(), removedEntries: [] };
+            this.states.set(locale, state);
+        }
+
+        return state;
+    }
+
+    private getToken(state: SnapshotState, locale: string): string 
+    {
+        return `${this.epoch}.${locale}.${state.revision}`;
+    }
+
+    /**
+     * Only tokens carry the run and locale they belong to, so a number (0 on the first request, or a revision a
+     * client picked up elsewhere) always gets a full snapshot.
+     */
+    private parseSince(since: number | string, locale: string): number | undefined 
+    {
+        if (typeof since !== "string") 
+        {
+            return undefined;
+        }
+
+        const [epoch, tokenLocale, revision] = since.split(".");
+        if (epoch !== this.epoch || tokenLocale !== locale || !/^\d+$/.test(revision ?? "")) 
+        {
+            return undefined;
+        }
+
+        return Number(revision);
+    }
+
+    private pruneRemovedEntries(state: SnapshotState): void 
+    {
+        const cutoff = state.revision - QuestStatusSnapshotService.maxRetainedRevisions;
+        if (cutoff <= state.oldestDeltaRevision) 
+        {
+            return;
+        }
+
+        state.removedEntries = state.removedEntries.filter((removed) => removed.revision > cutoff);
+        state.oldestDeltaRevision = cutoff;
+    }
+
+    private isSameStatus(previous: QuestStatusInfo | undefined, current: QuestStatusInfo): boolean 
+    {
+        return previous !== undefined && JSON.stringify(previous) === JSON.stringify(current);
+    }
+}
@@ -0,0 +1,201 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import { unreachableQuestStatus } from "./models/QuestStatusModels";
+import type {
+    PrerequisiteInfo,
+    ProfileQuestStatuses,
+    ProfileRanking,
+    ProfileSummary,
+    QuestStatusCounts,
+    QuestSummaryRequest,
+    QuestSummaryResponse
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+interface QuestTraders 
+{
+    /** The prerequisite map the traders were read with; replaced whenever the quest database changes. */
+    prerequisites: ReadonlyMap<string, PrerequisiteInfo[]>;
+    traders: Map<string, string>;
+}
+
+/**
+ * Aggregates the status matrix into per-profile counts and a ranking, for a quick progress overview
+ * without downloading every quest status.
+ */
+@injectable()
+export class QuestSummaryService 
+{
+    // Keyed by a profile's cached status map, which is replaced whenever the profile's statuses change
+    private summaries: WeakMap<ProfileQuestStatuses, ProfileSummary> = new WeakMap();
+    private questTraders?: QuestTraders;
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService
+    ) 
+    {}
+
+    /**
+     * Returns status counts, completion and Kappa progress per profile and trader, plus a ranking of the profiles.
+     */
+    public async handleGetSummary(request: QuestSummaryRequest | undefined, sessionId?: string): Promise<string> 
+    {
+        try 
+        {
+            const players = this.questStatusService.resolveRequestedPlayers(request?.profiles, sessionId);
+            if (typeof players === "string") 
+            {
+                return players;
+            }
+
+            this.questStatusService.prepareCaches();
+
+            const locale = this.questLocaleService.resolveLocale(request?.locale, sessionId);
+            const statuses = this.questStatusService.getQuestStatuses(undefined, locale, players);
+
+            const response: QuestSummaryResponse = { profiles: {}, ranking: [] };
+            for (const player of players) 
+            {
+                response.profiles[player.playerName] = this.getProfileSummary(statuses[player.playerName], locale);
+            }
+
+            response.ranking = this.getRanking(response.profiles);
+            return JSON.stringify(response);
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error in handleGetSummary: ${error}`);
+            return this.questStatusService.errorResponse("InternalError", "Failed to compute quest summary");
+        }
+    }
+
+    private getProfileSummary(questStatuses: ProfileQuestStatuses, locale: string): ProfileSummary 
+    {
+        const cached = this.summaries.get(questStatuses);
+        if (cached) 
+        {
+            return cached;
+        }
+
+        const traders = this.getQuestTraders();
+        const kappaQuests = this.questStatusService.getKappaQuests();
+        const traderStatuses = new Map<string, ProfileQuestStatuses>();
+        const kappaStatuses: ProfileQuestStatuses = {};
+
+        for (const [questId, info] of Object.entries(questStatuses)) 
+        {
+            const traderId = traders.get(questId);
+            if (traderId) 
+            {
+                let traderMap = traderStatuses.get(traderId);
+                if (!traderMap) 
+                {
+                    traderMap = {};
+                    traderStatuses.set(traderId, traderMap);
+                }
+
+                traderMap[questId] = info;
+            }
+
+            if (kappaQuests.has(questId)) 
+            {
+                kappaStatuses[questId] = info;
+            }
+        }
+
+        const summary: ProfileSummary = {
+            statusCounts: this.countStatuses(questStatuses),
+            completion: this.questStatusService.getCompletion(questStatuses),
+            kappa: this.questStatusService.getCompletion(kappaStatuses),
+            traders: {}
+        };
+
+        for (const [traderId, traderMap] of traderStatuses) 
+        {
+            summary.traders[traderId] = {
+                traderName: this.questLocaleService.getTraderName(traderId, locale),
+                statusCounts: this.countStatuses(traderMap),
+                completion: this.questStatusService.getCompletion(traderMap)
+            };
+        }
+
+        // Status maps are cached per locale, so the localized trader names stay valid for this key
+        this.summaries.set(questStatuses, summary);
+        return summary;
+    }
+
+    private countStatuses(questStatuses: ProfileQuestStatuses): QuestStatusCounts 
+    {
+        const counts: QuestStatusCounts = {};
+
+        for (const info of Object.values(questStatuses)) 
+        {
+            const name =
+                info.status === unreachableQuestStatus ? "Unreachable" : (QuestStatus[info.status] ?? `${info.status}`);
+            counts[name] = (counts[name] ?? 0) + 1;
+        }
+
+        return counts;
+    }
+
+    /**
+     * Orders profiles by completed quests, then by completion and Kappa percentage.
+     * Profiles with identical progress share a rank, the next one skips ahead (1, 1, 3).
+     */
+    private getRanking(summaries: { [playerName: string]: ProfileSummary }): ProfileRanking[] 
+    {
+        const ranking: ProfileRanking[] = Object.entries(summaries)
+            .map(([playerName, summary]) => ({
+                rank: 0,
+                playerName,
+                completed: summary.completion.completed,
+                percentage: summary.completion.percentage,
+                kappaPercentage: summary.kappa.percentage
+            }))
+            .sort((a, b) => this.compareRanking(a, b) || a.playerName.localeCompare(b.playerName));
+
+        ranking.forEach((entry, index) => 
+        {
+            const previous = ranking[index - 1];
+            entry.rank = previous && this.compareRanking(previous, entry) === 0 ? previous.rank : index + 1;
+        });
+
+        return ranking;
+    }
+
+    private compareRanking(a: ProfileRanking, b: ProfileRanking): number 
+    {
+        return b.completed - a.completed || b.percentage - a.percentage || b.kappaPercentage - a.kappaPercentage;
+    }
+
+    /**
+     * Quest givers keyed by quest ID, rebuilt along with the prerequisite cache.
+     */
+    private getQuestTraders(): Map<string, string> 
+    {
+        const prerequisites = this.questStatusService.getQuestPrerequisites();
+        if (this.questTraders?.prerequisites === prerequisites) 
+        {
+            return this.questTraders.traders;
+        }
+
+        const traders = new Map<string, string>();
+        for (const quest of this.questHelper.getQuestsFromDb() as IQuest[]) 
+        {
+            if (typeof quest?.traderId === "string") 
+            {
+                traders.set(quest._id, quest.traderId);
+            }
+        }
+
+        this.questTraders = { prerequisites, traders };
+        return traders;
+    }
+}
@@ -0,0 +1,397 @@
+import { inject, injectable } from "tsyringe";
+import { QuestHelper } from "@spt/helpers/QuestHelper";
+import type { IQuest } from "@spt/models/eft/common/tables/IQuest";
+import { QuestStatus } from "@spt/models/enums/QuestStatus";
+import type { WebhookTargetConfig } from "./models/LunaStatusQuestsConfig";
+import type {
+    ProfileQuestStatuses,
+    QuestStatusChange,
+    WebhookEvent,
+    WebhookEventType,
+    WebhookPayload,
+    WebhookTestResult
+} from "./models/QuestStatusModels";
+import type { LunaStatusQuestsService } from "./LunaStatusQuestsService";
+import type { QuestStatusSnapshotService } from "./QuestStatusSnapshotService";
+import type { LunaStatusQuestsLogger } from "./LunaStatusQuestsLogger";
+import type { ModConfigService } from "./ModConfigService";
+import type { QuestLocaleService } from "./QuestLocaleService";
+
+interface DeliveryAttempt 
+{
+    /** Undefined when the target accepted the body. */
+    failure?: string;
+    retryable: boolean;
+    retryAfterMs?: number;
+}
+
+/**
+ * Posts quest milestones found by the snapshot diff to the webhook targets in the config, as generic JSON or as
+ * Discord messages. Events are batched per target and failed deliveries are retried with exponential backoff.
+ */
+@injectable()
+export class QuestWebhookService 
+{
+    // Events waiting for their target's batch timer
+    private batches: Map<WebhookTargetConfig, WebhookEvent[]> = new Map();
+
+    private static readonly requestTimeoutMs = 10 * 1000;
+    // Discord rejects messages with longer content
+    private static readonly discordMaxLength = 2000;
+
+    constructor(
+        @inject("LunaStatusQuestsLogger") private logger: LunaStatusQuestsLogger,
+        @inject("ModConfigService") private configService: ModConfigService,
+        @inject("QuestHelper") private questHelper: QuestHelper,
+        @inject("LunaStatusQuestsService") private questStatusService: LunaStatusQuestsService,
+        @inject("QuestLocaleService") private questLocaleService: QuestLocaleService,
+        @inject("QuestStatusSnapshotService") snapshotService: QuestStatusSnapshotService
+    ) 
+    {
+        snapshotService.addChangeListener((changes) => this.handleChanges(changes));
+    }
+
+    /**
+     * Sends a sample QuestCompleted event, marked as a test, to every configured target right away instead of
+     * batching it, with one attempt per target. Also works while webhooks.enabled is off, to check targets before
+     * turning them on.
+     */
+    public async sendTestEvent(playerName: string): Promise<WebhookTestResult[]> 
+    {
+        const locale = this.questLocaleService.getDefaultLocale();
+        const quest: IQuest | undefined = this.questHelper.getQuestsFromDb()[0];
+        const event: WebhookEvent = {
+            event: "QuestCompleted",
+            playerName,
+            questId: quest?._id,
+            questName: quest ? (this.questLocaleService.getQuestName(quest._id, locale) ?? quest._id) : undefined,
+            traderId: quest?.traderId,
+            traderName: quest ? this.questLocaleService.getTraderName(quest.traderId, locale) : undefined,
+            status: QuestStatus.Success,
+            previousStatus: QuestStatus.AvailableForFinish,
+            timestamp: Date.now(),
+            test: true
+        };
+
+        const results: WebhookTestResult[] = [];
+        for (const target of this.configService.getConfig().webhooks.targets) 
+        {
+            // No retries, so the route answers quickly and shows what the target said
+            let error: string | undefined;
+            for (const body of this.createBodies(target, [event])) 
+            {
+                error = (await this.post(target, JSON.stringify(body))).failure;
+                if (error !== undefined) 
+                {
+                    break;
+                }
+            }
+
+            results.push({ host: this.getHost(target), format: target.format, delivered: error === undefined, error });
+        }
+
+        return results;
+    }
+
+    private handleChanges(changes: QuestStatusChange[]): void 
+    {
+        const webhooks = this.configService.getConfig().webhooks;
+        if (!webhooks.enabled || webhooks.targets.length === 0) 
+        {
+            return;
+        }
+
+        const events = this.getEvents(changes);
+        for (const target of webhooks.targets) 
+        {
+            const matching = events.filter(
+                (event) =>
+                    target.events.includes(event.event) &&
+                    (target.profiles.length === 0 || target.profiles.includes(event.playerName))
+            );
+
+            if (matching.length > 0) 
+            {
+                this.enqueue(target, matching, webhooks.batchDelaySeconds);
+            }
+        }
+    }
+
+    private getEvents(changes: QuestStatusChange[]): WebhookEvent[] 
+    {
+        const timestamp = Date.now();
+        const kappaQuests = this.questStatusService.getKappaQuests();
+        const kappaPlayers = new Set<string>();
+        const events: WebhookEvent[] = [];
+
+        for (const change of changes) 
+        {
+            const event = this.getEventType(change);
+            if (!event) 
+            {
+                continue;
+            }
+
+            const traderId = this.getQuest(change.questId)?.traderId;
+            events.push({
+                event,
+                playerName: change.playerName,
+                questId: change.questId,
+                questName: change.current.questName,
+                traderId,
+                traderName: traderId
+                    ? this.questLocaleService.getTraderName(traderId, this.questLocaleService.getDefaultLocale())
+                    : undefined,
+                status: change.current.status,
+                previousStatus: this.questStatusService.toSchemaV1Status(change.previous?.status),
+                timestamp
+            });
+
+            if (event === "QuestCompleted" && kappaQuests.has(change.questId)) 
+            {
+                kappaPlayers.add(change.playerName);
+            }
+        }
+
+        // Only a turn-in of a Kappa quest can complete the requirements, so only those profiles are checked
+        for (const playerName of kappaPlayers) 
+        {
+            if (this.hasCompletedKappa(playerName)) 
+            {
+                events.push({ event: "KappaCompleted", playerName, timestamp });
+            }
+        }
+
+        return events;
+    }
+
+    private getEventType(change: QuestStatusChange): WebhookEventType | undefined 
+    {
+        const previousStatus = change.previous?.status;
+        const status = change.current.status;
+
+        if (status === QuestStatus.Success && previousStatus !== QuestStatus.Success) 
+        {
+            return "QuestCompleted";
+        }
+
+        if (
+            status === QuestStatus.AvailableForStart &&
+            (previousStatus === QuestStatus.Locked || previousStatus === QuestStatus.AvailableAfter)
+        ) 
+        {
+            return "QuestUnlocked";
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Every Kappa quest the profile can still reach is done; unreachable ones count as configured for completion.
+     */
+    private hasCompletedKappa(playerName: string): boolean 
+    {
+        const player = this.questStatusService.getPlayerProfiles().find((entry) => entry.playerName === playerName);
+        if (!player) 
+        {
+            return false;
+        }
+
+        const kappaQuests = this.questStatusService.getKappaQuests();
+        const statuses = this.questStatusService.getProfileQuestStatuses(
+            player.pmcData,
+            undefined,
+            this.questLocaleService.getDefaultLocale()
+        );
+        const kappaStatuses: ProfileQuestStatuses = {};
+        for (const questId of kappaQuests) 
+        {
+            if (statuses[questId]) 
+            {
+                kappaStatuses[questId] = statuses[questId];
+            }
+        }
+
+        const completion = this.questStatusService.getCompletion(kappaStatuses);
+        return completion.total > 0 && completion.completed === completion.total;
+    }
+
+    private getQuest(questId: string): IQuest | undefined 
+    {
+        return (this.questHelper.getQuestsFromDb() as IQuest[]).find((quest) => quest._id === questId);
+    }
+
+    /**
+     * Adds events to the target's open batch; the first event of a batch starts its timer.
+     */
+    private enqueue(target: WebhookTargetConfig, events: WebhookEvent[], batchDelaySeconds: number): void 
+    {
+        const batch = this.batches.get(target);
+        if (batch) 
+        {
+            batch.push(...events);
+            return;
+        }
+
+        this.batches.set(target, events);
+        setTimeout(() => 
+        {
+            this.batches.delete(target);
+            void this.deliverBatch(target, events);
+        }, batchDelaySeconds * 1000).unref();
+    }
+
+    private async deliverBatch(target: WebhookTargetConfig, events: WebhookEvent[]): Promise<void> 
+    {
+        try 
+        {
+            for (const body of this.createBodies(target, events)) 
+            {
+                await this.deliver(target, JSON.stringify(body));
+            }
+        }
+        catch (error) 
+        {
+            this.logger.error(`[LunaStatusQuestsServer] Error sending webhook to ${this.getHost(target)}: ${error}`);
+        }
+    }
+
+    /**
+     * One body for JSON targets. Discord limits the message length, so long batches are split into several messages.
+     */
+    private createBodies(target: WebhookTargetConfig, events: WebhookEvent[]): object[] 
+    {
+        if (target.format === "json") 
+        {
+            const payload: WebhookPayload = { events };
+            return [payload];
+        }
+
+        const messages: string[] = [];
+        for (const line of events.map((event) => `${event.test ? "[test] " : ""}${this.formatEvent(event)}`)) 
+        {
+            const last = messages.length - 1;
+            if (last >= 0 && messages[last].length + line.length + 1 <= QuestWebhookService.discordMaxLength) 
+            {
+                messages[last] += `\n${line}`;
+            }
+            else 
+            {
+                messages.push(line.slice(0, QuestWebhookService.discordMaxLength));
+            }
+        }
+
+        // Nicknames and quest names must not be able to ping anyone
+        return messages.map((content) => ({
+            content,
+            allowed_mentions: { parse: [] }
+        }));
+    }
+
+    private formatEvent(event: WebhookEvent): string 
+    {
+        const locale = this.questLocaleService.getDefaultLocale();
+        const values = {
+            player: `**${event.playerName}**`,
+            quest: event.questName ?? event.questId ?? "",
+            trader: event.traderName ?? event.traderId ?? ""
+        };
+
+        switch (event.event) 
+        {
+            case "QuestCompleted":
+                return this.questLocaleService.formatPhrase("webhookQuestCompleted", locale, values);
+            case "QuestUnlocked":
+                return this.questLocaleService.formatPhrase("webhookQuestUnlocked", locale, values);
+            case "KappaCompleted":
+                return this.questLocaleService.formatPhrase("webhookKappaCompleted", locale, values);
+        }
+    }
+
+    /**
+     * Posts one body, retrying network errors, rate limits and server errors. Other rejections are not retried,
+     * the same body would fail again. Returns whether the target accepted it.
+     */
+    private async deliver(target: WebhookTargetConfig, body: string): Promise<boolean> 
+    {
+        const { maxRetries, retryDelaySeconds } = this.configService.getConfig().webhooks;
+        const host = this.getHost(target);
+
+        for (let attempt = 0; ; attempt++) 
+        {
+            const result = await this.post(target, body);
+            if (result.failure === undefined) 
+            {
+                return true;
+            }
+
+            if (!result.retryable) 
+            {
+                this.logger.warning(`[LunaStatusQuestsServer] Webhook ${host} rejected: ${result.failure}`);
+                return false;
+            }
+
+            if (attempt >= maxRetries) 
+            {
+                this.logger.error(
+                    `[LunaStatusQuestsServer] Gave up on webhook ${host} after ${attempt + 1} attempts: ${result.failure}`
+                );
+                return false;
+            }
+
+            const delayMs = result.retryAfterMs ?? retryDelaySeconds * 1000 * 2 ** attempt;
+            this.logger.debug(
+                `[LunaStatusQuestsServer] Webhook ${host} failed (${result.failure}), retrying in ${delayMs} ms`
+            );
+            await new Promise((resolve) => setTimeout(resolve, delayMs).unref());
+        }
+    }
+
+    /**
+     * A single POST of one body. Network errors, rate limits and server errors are worth retrying.
+     */
+    private async post(target: WebhookTargetConfig, body: string): Promise<DeliveryAttempt> 
+    {
+        try 
+        {
+            const response = await fetch(target.url, {
+                method: "POST",
+                headers: [["Content-Type", "application/json"]],
+                body,
+                signal: AbortSignal.timeout(QuestWebhookService.requestTimeoutMs)
+            });
+
+            if (response.ok) 
+            {
+                return { retryable: false };
+            }
+
+            return {
+                failure: `HTTP ${response.status}`,
+                retryable: response.status === 429 || response.status >= 500,
+                retryAfterMs: this.getRetryAfterMs(response.headers.get("Retry-After"))
+            };
+        }
+        catch (error) 
+        {
+            return { failure: `${error}`, retryable: true };
+        }
+    }
+
+    /**
+     * Rate-limited responses say when to try again, in seconds.
+     */
+    private getRetryAfterMs(header: string | null): number | undefined 
+    {
+        const seconds = Number(header);
+        return header !== null && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+    }
+
+    /**
+     * Webhook URLs often contain a secret token, so logs only name the host.
+     */
+    private getHost(target: WebhookTargetConfig): string 
+    {
+        return new URL(target.url).host;
+    }
+}
@@ -0,0 +1,77 @@
+import type { WebhookEventType } from "./QuestStatusModels";
+
+export type LogLevel = "error" | "warning" | "info" | "debug";
+
+export interface ResponseFieldsConfig 
+{
+    includeQuestNames: boolean;
+    includeLockedReason: boolean;
+    includeLockReasons: boolean;
+}
+
+export interface HistoryConfig 
+{
+    enabled: boolean;
+    maxEntries: number;
+    retentionDays: number;
+}
+
+export interface PrivacyConfig 
+{
+    /** Nicknames or profile IDs whose quests are never shared. */
+    optedOutProfiles: string[];
+    allowOptOut: boolean;
+    friendsOnly: boolean;
+    /** Requester nickname to the nicknames it may see while friendsOnly is on. */
+    friends: Record<string, string[]>;
+}
+
+export interface AdminConfig 
+{
+    /** Nicknames or profile IDs allowed to use the admin routes. */
+    profiles: string[];
+    /** Opens the admin routes to every requester, e.g. on a private test server. */
+    allowEveryone: boolean;
+}
+
+export type WebhookFormat = "json" | "discord";
+
+export interface WebhookTargetConfig 
+{
+    url: string;
+    format: WebhookFormat;
+    /** Events sent to this target. */
+    events: WebhookEventType[];
+    /** Nicknames whose events are sent; empty sends everyone's. */
+    profiles: string[];
+}
+
+export interface WebhooksConfig 
+{
+    enabled: boolean;
+    /** Events within this many seconds of the first one are sent as one message. */
+    batchDelaySeconds: number;
+    maxRetries: number;
+    /** Delay before the first retry, doubled for every further one. */
+    retryDelaySeconds: number;
+    targets: WebhookTargetConfig[];
+}
+
+/**
+ * Shape of config/config.jsonc. Every field is optional in the file; missing or invalid values use the defaults.
+ */
+export interface LunaStatusQuestsConfig 
+{
+    excludedProfileIds: string[];
+    excludedProfilePrefixes: string[];
+    visibleProfiles: string;
+    maxQuestDepth: number;
+    questsBehindFormat: string;
+    response: ResponseFieldsConfig;
+    excludeUnreachableFromCompletion: boolean;
+    history: HistoryConfig;
+    privacy: PrivacyConfig;
+    webhooks: WebhooksConfig;
+    admin: AdminConfig;
+    logLevel: LogLevel;
+}
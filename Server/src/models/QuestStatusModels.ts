@@ -0,0 +1,854 @@
+import type { IPmcData } from "@spt/models/eft/common/IPmcData";
+import type { WebhookFormat } from "./LunaStatusQuestsConfig";
+
+export interface PlayerProfile 
+{
+    profileId: string;
+    playerName: string;
+    pmcData: IPmcData;
+}
+
+export interface PrerequisiteInfo 
+{
+    id: string;
+    /** Statuses of the prerequisite that satisfy the condition, usually only Success. */
+    statuses: number[];
+}
+
+/**
+ * Status of quests a profile can never start, used inside the server. It is not part of the game's QuestStatus enum,
+ * so it never leaves the server as a number: schema version 2 names it "Unreachable", and everything else (schema
+ * version 1 responses, the other routes, history, events and webhooks) reports these quests as Locked with an
+ * unreachableReason, or marks them by name.
+ */
+export const unreachableQuestStatus = 100;
+
+export interface QuestGraphIssues 
+{
+    /** Each cycle is listed as the quest IDs along it, each quest requiring the next one. */
+    cycles: string[][];
+    /** Prerequisite IDs that do not exist in the quest database. */
+    danglingPrerequisites: { questId: string; prerequisiteId: string }[];
+}
+
+export interface QuestStatusInfo 
+{
+    status: number;
+    lockedReason?: string;
+    lockReasons?: LockReason[];
+    /** Set for quests the profile can never start; their status is unreachableQuestStatus, Locked in responses. */
+    unreachableReason?: UnreachableReason;
+    questName?: string;
+}
+
+export type UnreachableReasonType = "Faction" | "ExclusiveQuest" | "FailedPrerequisite";
+
+/**
+ * Why a quest can never be started. Quests further down a chain report the reason of the quest that broke it.
+ */
+export interface UnreachableReason 
+{
+    type: UnreachableReasonType;
+    message: string;
+    /** The quest that excluded this one, or the prerequisite that ended in a state the chain does not accept. */
+    questId?: string;
+    questName?: string;
+    /** The only faction that can take the quest. */
+    side?: string;
+}
+
+export interface QuestCompletion 
+{
+    completed: number;
+    /** Quests counted; unreachable quests are left out when excludeUnreachableFromCompletion is on. */
+    total: number;
+    unreachable: number;
+    /** 0-100, one decimal. */
+    percentage: number;
+}
+
+export type LockReasonType = "Quest" | "Level" | "TraderLoyalty" | "TraderStanding" | "Timer";
+
+/**
+ * One unmet start condition of a locked quest.
+ */
+export interface LockReason 
+{
+    type: LockReasonType;
+    /** Human readable summary, e.g. "Needs level 15 (you are 12)". */
+    message: string;
+    /** Required value: level, loyalty level, standing, prerequisite count or unlock timestamp (seconds). */
+    required?: number;
+    /** The profile's current value, in the same unit as `required`. */
+    current?: number;
+    traderId?: string;
+    traderName?: string;
+    /** Quest only: the incomplete immediate prerequisites. */
+    questIds?: string[];
+    /** Quest only: the oldest uncompleted quest further down the chain. */
+    firstBlockerId?: string;
+    firstBlockerName?: string;
+    questsBehind?: number;
+    /** Timer only: unix timestamp (seconds) at which the quest becomes available. */
+    availableAt?: number;
+}
+
+/**
+ * One profile's statuses keyed by quest ID.
+ */
+export type ProfileQuestStatuses = { [questId: string]: QuestStatusInfo };
+
+export interface QuestStatusResponse 
+{
+    [playerName: string]: ProfileQuestStatuses;
+}
+
+export interface QuestBatchRequest 
+{
+    questIds?: unknown;
+    /** Response schema, 1 (default) or 2; see CompactQuestStatusResponse. */
+    version?: unknown;
+    /** Game locale for names and lock reasons, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+/**
+ * Optional body of the statuses route. When `since` is present the route answers with a QuestStatusSyncResponse.
+ * `since` is the opaque token returned by a previous sync response, the only handle a delta can be asked for with;
+ * any number, e.g. 0 on the first request, gets a full snapshot.
+ */
+export interface QuestStatusSyncRequest 
+{
+    since?: number | string;
+    /** Game locale for names and lock reasons, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+    /** Response schema, 1 (default) or 2; see CompactQuestStatusResponse. */
+    version?: unknown;
+}
+
+export interface QuestStatusSyncResponse 
+{
+    /** "full" replaces everything the client holds, "delta" must be merged into the previous state. */
+    mode: "full" | "delta";
+    /** Pass as `since` on the next request. */
+    token: string;
+    statuses: QuestStatusResponse;
+    /** Delta only: quest entries that no longer exist, per profile. */
+    removedQuests?: { [playerName: string]: string[] };
+    /** Delta only: profiles that no longer exist. */
+    removedProfiles?: string[];
+}
+
+/**
+ * Response schemas clients can ask for. 1 is the plain QuestStatusResponse, 2 the CompactQuestStatusResponse.
+ */
+export const supportedSchemaVersions = [1, 2];
+
+export interface CompactResponseHeader 
+{
+    schemaVersion: number;
+    /** Version of the server mod, from its package.json. */
+    modVersion: string;
+    /** Unix time in milliseconds. */
+    generatedAt: number;
+    /** Seconds since the prerequisite cache was built from the quest database. */
+    cacheAgeSeconds?: number;
+}
+
+/**
+ * Quest details shared by every profile, sent once instead of with each status.
+ */
+export interface CompactQuestInfo 
+{
+    name: string;
+    traderId?: string;
+    /** Required for the Collector quest (Kappa container), the Collector included. */
+    kappa: boolean;
+}
+
+export interface CompactQuestStatus 
+{
+    questId: string;
+    /** QuestStatus name, e.g. "Started", or "Unreachable". */
+    status: string;
+    lockedReason?: string;
+    lockReasons?: LockReason[];
+    unreachableReason?: UnreachableReason;
+}
+
+/**
+ * Schema version 2 of the status routes: quest names and traders in a shared dictionary, and one status array
+ * per profile with named statuses.
+ */
+export interface CompactQuestStatusResponse 
+{
+    header: CompactResponseHeader;
+    quests: { [questId: string]: CompactQuestInfo };
+    profiles: { [playerName: string]: CompactQuestStatus[] };
+}
+
+/**
+ * Schema version 2 of QuestStatusSyncResponse; `profiles` holds what `statuses` holds in version 1.
+ */
+export type CompactQuestStatusSyncResponse = CompactQuestStatusResponse & Omit<QuestStatusSyncResponse, "statuses">;
+
+export type ErrorCode =
+    | "InvalidRequest"
+    | "QuestNotFound"
+    | "ProfileNotFound"
+    | "MapNotFound"
+    | "Forbidden"
+    | "InternalError";
+
+export interface ErrorResponse 
+{
+    error: ErrorCode;
+    message: string;
+    unknownIds?: string[];
+}
+
+/**
+ * A single profile/quest entry whose computed status differs from the previous snapshot.
+ */
+export interface QuestStatusChange 
+{
+    playerName: string;
+    questId: string;
+    previous?: QuestStatusInfo;
+    current: QuestStatusInfo;
+    revision: number;
+}
+
+export type QuestStatusEventType = "Started" | "AvailableForFinish" | "Success" | "Fail" | "Unlocked";
+
+/**
+ * Message pushed to WebSocket subscribers when a profile's quest status changes.
+ */
+export interface QuestStatusEventMessage 
+{
+    type: "questStatusChanged";
+    event: QuestStatusEventType;
+    playerName: string;
+    questId: string;
+    questName?: string;
+    status: number;
+    previousStatus: number;
+    revision: number;
+    timestamp: number;
+}
+
+/**
+ * Message sent by WebSocket clients to choose which events they receive.
+ * Omitted or empty lists mean "everything".
+ */
+export interface QuestStatusSubscribeMessage 
+{
+    type: "subscribe";
+    profiles?: string[];
+    questIds?: string[];
+}
+
+/**
+ * Progress of one AvailableForFinish condition of a started quest.
+ */
+export interface ObjectiveProgress 
+{
+    conditionId: string;
+    conditionType: string;
+    description: string;
+    current: number;
+    target: number;
+    completed: boolean;
+}
+
+export interface QuestObjectivesResponse 
+{
+    questId: string;
+    questName: string;
+    /** Only profiles that have the quest started (or ready to hand in) are listed. */
+    profiles: {
+        [playerName: string]: {
+            status: number;
+            objectives: ObjectiveProgress[];
+        };
+    };
+}
+
+/**
+ * Optional body of the graph routes.
+ */
+export interface QuestGraphRequest 
+{
+    format?: "json" | "dot";
+    /** Profiles whose status is attached to every node; "*" for all visible profiles. */
+    profiles?: string[] | "*";
+    /** Game locale for names and lock reasons, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+export interface QuestGraphNode 
+{
+    id: string;
+    name: string;
+    traderId?: string;
+    traderName?: string;
+    statuses?: { [playerName: string]: number };
+    /** Profiles that can never start the quest; their entry in statuses is Locked. */
+    unreachableReasons?: { [playerName: string]: UnreachableReason };
+}
+
+export interface QuestGraphEdge 
+{
+    /** The prerequisite quest. */
+    from: string;
+    /** The quest it unlocks. */
+    to: string;
+}
+
+export interface QuestGraphResponse 
+{
+    nodes: QuestGraphNode[];
+    edges: QuestGraphEdge[];
+    issues: QuestGraphIssues;
+}
+
+/**
+ * Body of the squad planner route.
+ */
+export interface SquadPlanRequest 
+{
+    /** Nicknames of the squad members. */
+    profiles?: unknown;
+    /** Order of the groups by how many members benefit; "desc" (default) puts the most useful quests first. */
+    order?: unknown;
+    /** Game locale for names and lock reasons, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+export interface SquadBlockedMember 
+{
+    playerName: string;
+    /** Locked or AvailableAfter; quests the member can never start are Locked with an unreachableReason. */
+    status: number;
+    lockedReason?: string;
+    lockReasons?: LockReason[];
+    unreachableReason?: UnreachableReason;
+}
+
+export interface SquadQuestEntry 
+{
+    questId: string;
+    questName: string;
+    traderId?: string;
+    /** Members that have the quest started, including those only left to hand it in. */
+    started: string[];
+    /** Members that can accept the quest right away. */
+    available: string[];
+    /** Members that still have the quest locked or can never start it, with what blocks them. */
+    blocked: SquadBlockedMember[];
+}
+
+/**
+ * Quests that the same number of members have started and can start.
+ */
+export interface SquadQuestGroup 
+{
+    started: number;
+    available: number;
+    /** started + available: how many members the quest helps. */
+    benefitCount: number;
+    quests: SquadQuestEntry[];
+}
+
+export interface SquadPlanResponse 
+{
+    profiles: string[];
+    groups: SquadQuestGroup[];
+}
+
+/**
+ * Optional body of the raid planner route.
+ */
+export interface RaidPlanRequest 
+{
+    /** Map to plan for, e.g. "bigmap"; all maps when omitted. */
+    mapId?: unknown;
+    /** Nicknames to include; all visible profiles when omitted. */
+    profiles?: unknown;
+    /** Game locale for names and objective descriptions, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+export interface RaidObjective extends ObjectiveProgress 
+{
+    /** True when the objective can be done on any map. */
+    anyLocation: boolean;
+}
+
+export interface RaidQuestEntry 
+{
+    questId: string;
+    questName: string;
+    traderId?: string;
+    /** True when none of the quest's unfinished objectives is tied to a map. */
+    anyLocation: boolean;
+    /** Unfinished objectives on the map, followed by those that can be done anywhere. */
+    objectives: RaidObjective[];
+}
+
+export interface RaidMapPlan 
+{
+    mapId: string;
+    mapName: string;
+    /** Started quests with unfinished objectives on this map, summed over all profiles. */
+    questCount: number;
+    profiles: { [playerName: string]: RaidQuestEntry[] };
+}
+
+export interface RaidPlanResponse 
+{
+    /** Ordered by questCount, the map that advances the most quests first. */
+    maps: RaidMapPlan[];
+    /** Started quests whose unfinished objectives can be done on any map. */
+    anyLocation: { [playerName: string]: RaidQuestEntry[] };
+}
+
+/**
+ * One recorded status transition, stored as a line of data/history.jsonl.
+ */
+export interface QuestHistoryEntry 
+{
+    /** Unix time in milliseconds. */
+    timestamp: number;
+    playerName: string;
+    questId: string;
+    questName?: string;
+    status: number;
+    previousStatus?: number;
+    /** Set when the quest became unreachable; status is Locked then. */
+    unreachableReason?: UnreachableReason;
+}
+
+/**
+ * Optional body of the history route. Every filter is optional; omitted filters match everything.
+ */
+export interface QuestHistoryRequest 
+{
+    profiles?: unknown;
+    questIds?: unknown;
+    /** Status numbers or QuestStatus names, e.g. [4] or ["Success"]; "Unreachable" matches unreachable quests. */
+    statuses?: unknown;
+    /** Unix time in milliseconds or an ISO 8601 date, inclusive. */
+    from?: unknown;
+    to?: unknown;
+    /** Maximum number of entries returned, newest first. */
+    limit?: unknown;
+}
+
+export interface QuestHistoryResponse 
+{
+    /** Number of entries matching the filters before `limit` was applied. */
+    total: number;
+    /** Newest first. */
+    entries: QuestHistoryEntry[];
+}
+
+/**
+ * Optional body of the summary route.
+ */
+export interface QuestSummaryRequest 
+{
+    /** Nicknames to include; all visible profiles when omitted. */
+    profiles?: unknown;
+    /** Game locale for trader names, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+/**
+ * Number of quests per status, keyed by status name, e.g. { "Success": 120, "Locked": 80 }.
+ */
+export type QuestStatusCounts = { [statusName: string]: number };
+
+export interface TraderSummary 
+{
+    traderName: string;
+    statusCounts: QuestStatusCounts;
+    completion: QuestCompletion;
+}
+
+export interface ProfileSummary 
+{
+    statusCounts: QuestStatusCounts;
+    completion: QuestCompletion;
+    /** Progress on the quests required for the Collector quest (Kappa container), the Collector included. */
+    kappa: QuestCompletion;
+    traders: { [traderId: string]: TraderSummary };
+}
+
+export interface ProfileRanking 
+{
+    /** 1 for the most completed quests; profiles with the same progress share a rank. */
+    rank: number;
+    playerName: string;
+    completed: number;
+    percentage: number;
+    kappaPercentage: number;
+}
+
+export interface QuestSummaryResponse 
+{
+    profiles: { [playerName: string]: ProfileSummary };
+    /** Ordered by completed quests, then completion and Kappa percentage. */
+    ranking: ProfileRanking[];
+}
+
+/**
+ * Optional body of the item list route.
+ */
+export interface ItemListRequest 
+{
+    /** Nicknames to include; all visible profiles when omitted. */
+    profiles?: unknown;
+    /** Also list items for quests the profiles can accept but have not started yet. */
+    includeAvailable?: unknown;
+    /** Game locale for item and quest names, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+/**
+ * One quest objective that still needs an item.
+ */
+export interface ItemNeed 
+{
+    playerName: string;
+    questId: string;
+    questName: string;
+    questStatus: number;
+    conditionId: string;
+    conditionType: string;
+    required: number;
+    current: number;
+    remaining: number;
+}
+
+export interface ItemListEntry 
+{
+    templateId: string;
+    itemName: string;
+    /** Other item templates the objectives accept instead. */
+    alternativeIds?: string[];
+    /** Only items found in raid count for these objectives. */
+    foundInRaid: boolean;
+    required: number;
+    current: number;
+    remaining: number;
+    needs: ItemNeed[];
+}
+
+export interface ItemListResponse 
+{
+    /** Ordered by remaining count, most needed first. */
+    profiles: { [playerName: string]: ItemListEntry[] };
+    /** The same items merged across all listed profiles. */
+    total: ItemListEntry[];
+}
+
+export interface QuestRecommendation 
+{
+    questId: string;
+    questName: string;
+    traderId?: string;
+    /** AvailableForStart, Started or AvailableForFinish. */
+    status: number;
+    /** unlocks, plus one for every Kappa-required quest among them and for the quest itself if Kappa-required. */
+    score: number;
+    /** Locked quests further down the quest's chains. */
+    unlocks: number;
+    /** Locked quests whose last unmet quest prerequisite is this one. */
+    directUnlockIds: string[];
+    kappaRequired: boolean;
+    /** How many of the unlocked quests are Kappa-required. */
+    kappaUnlocks: number;
+    explanation: string;
+}
+
+export interface QuestRecommendationsResponse 
+{
+    playerName: string;
+    /** Number of Available and Started quests ranked, before `limit` was applied. */
+    total: number;
+    /** Highest score first. */
+    recommendations: QuestRecommendation[];
+}
+
+/**
+ * Optional body of the privacy route.
+ */
+export interface PrivacyRequest 
+{
+    /** false opts the requester's profile out of sharing, true opts it back in; omit to only read the state. */
+    share?: unknown;
+}
+
+export interface PrivacyResponse 
+{
+    playerName: string;
+    /** Whether other players can see this profile's quests. */
+    sharing: boolean;
+    /** The profile is listed in the server's privacy.optedOutProfiles and cannot opt back in itself. */
+    hiddenByServer: boolean;
+    allowOptOut: boolean;
+    friendsOnly: boolean;
+}
+
+/**
+ * Body of the comparison route.
+ */
+export interface ProfileComparisonRequest 
+{
+    /** The two nicknames to compare. */
+    profiles?: unknown;
+    /** Game locale for names and lock reasons, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+export interface ComparisonQuestEntry 
+{
+    questId: string;
+    questName: string;
+    /** Quests above this one in its longest prerequisite chain; 0 for quests without quest prerequisites. */
+    chainDepth: number;
+    aheadStatus: number;
+    behindStatus: number;
+    /** Set while the lagging profile cannot start the quest yet. */
+    lockedReason?: string;
+    /** The lagging profile's oldest uncompleted quest down the chain, as in lockReasons. */
+    firstBlockerId?: string;
+    firstBlockerName?: string;
+    questsBehind?: number;
+}
+
+export interface ComparisonTraderGroup 
+{
+    traderId: string;
+    traderName: string;
+    /** Ordered along the prerequisite chains, earliest quests first. */
+    quests: ComparisonQuestEntry[];
+}
+
+/**
+ * The quests one profile has started or completed that the other has not got as far with.
+ */
+export interface ProfileComparison 
+{
+    ahead: string;
+    behind: string;
+    /** Quests the lagging profile still has to start or complete to catch up; the number of listed quests. */
+    questsUntilInSync: number;
+    /** Ordered by trader name. */
+    traders: ComparisonTraderGroup[];
+}
+
+export interface ProfileComparisonResponse 
+{
+    profiles: string[];
+    /** Both directions: the first profile ahead of the second, then the second ahead of the first. */
+    comparisons: ProfileComparison[];
+}
+
+/**
+ * Optional body of the repeatables route.
+ */
+export interface RepeatableQuestsRequest 
+{
+    /** Nicknames to include; all visible profiles when omitted. */
+    profiles?: unknown;
+    /** Game locale for names and objective descriptions, e.g. "de"; defaults to the session's game language. */
+    locale?: string;
+}
+
+export interface RepeatableChangeCost 
+{
+    templateId: string;
+    count: number;
+}
+
+/**
+ * What replacing (rerolling) the quest costs. Free changes are shared by all quests of the same pool.
+ */
+export interface RepeatableChangeState 
+{
+    freeChangesAvailable: number;
+    freeChanges: number;
+    /** Items paid once the free changes are used up, usually roubles. */
+    changeCost: RepeatableChangeCost[];
+    /** Standing lost with the quest's trader on a paid change. */
+    changeStandingCost: number;
+}
+
+/**
+ * A repeatable quest of another profile that can be done in the same raid.
+ */
+export interface RepeatableOverlap 
+{
+    playerName: string;
+    questId: string;
+    questName: string;
+    /** Maps both quests are tied to. */
+    mapIds: string[];
+    /** Kill targets, boss roles or item template IDs both quests ask for. */
+    targets: string[];
+}
+
+export interface RepeatableQuestInfo 
+{
+    /** Always true; repeatable quests are not part of the quest database and belong in their own section. */
+    repeatable: true;
+    questId: string;
+    questName: string;
+    /** Pool the quest was generated for: "Daily", "Weekly" or "Daily_Savage" (Scav dailies). */
+    pool: string;
+    /** "Elimination", "Completion", "Exploration" or "Pickup". */
+    type: string;
+    traderId: string;
+    traderName: string;
+    /** AvailableForStart until accepted, then the status the profile has for it. */
+    status: number;
+    /** Lowercase map IDs the quest is tied to; empty when it can be done on any map. */
+    mapIds: string[];
+    /** Kill targets, boss roles and item template IDs the objectives ask for. */
+    targets: string[];
+    objectives: ObjectiveProgress[];
+    /** Unix time in milliseconds when the pool is refreshed and the quest is replaced. */
+    expiresAt?: number;
+    change: RepeatableChangeState;
+    /** Open repeatable quests of other profiles on the same map or with the same target. */
+    overlaps: RepeatableOverlap[];
+}
+
+export interface RepeatableQuestsResponse 
+{
+    /** Active repeatable quests per profile, dailies first. */
+    profiles: { [playerName: string]: RepeatableQuestInfo[] };
+}
+
+export type WebhookEventType = "QuestCompleted" | "QuestUnlocked" | "KappaCompleted";
+
+/**
+ * One milestone sent to webhook targets; the quest fields are not set for KappaCompleted.
+ */
+export interface WebhookEvent 
+{
+    event: WebhookEventType;
+    playerName: string;
+    questId?: string;
+    questName?: string;
+    traderId?: string;
+    traderName?: string;
+    status?: number;
+    previousStatus?: number;
+    timestamp: number;
+    /** Set on the sample event sent by /admin/webhooks/test; nothing actually happened. */
+    test?: boolean;
+}
+
+/**
+ * Body posted to targets with the "json" format. A batch holds every event collected within batchDelaySeconds.
+ */
+export interface WebhookPayload 
+{
+    events: WebhookEvent[];
+}
+
+/**
+ * Why getPlayerProfiles leaves a profile out, checked in this order.
+ */
+export type ProfileExclusionReason =
+    | "ExcludedProfileId"
+    | "ExcludedProfilePrefix"
+    | "NoPmcData"
+    | "NoNickname"
+    | "NotVisible"
+    | "OptedOut";
+
+export interface ExcludedProfile 
+{
+    profileId: string;
+    playerName?: string;
+    reason: ProfileExclusionReason;
+}
+
+export interface PrerequisiteCacheDiagnostics 
+{
+    /** Unix milliseconds of the last build; unset before the first request. */
+    builtAt?: number;
+    ageSeconds?: number;
+    quests: number;
+    questsWithPrerequisites: number;
+    /** Prerequisite entries over all quests. */
+    prerequisiteLinks: number;
+    questsWithExclusions: number;
+    kappaQuests: number;
+}
+
+export interface ProfileCacheDiagnostics 
+{
+    profileId: string;
+    playerName?: string;
+    /** Seconds since the profile's quest data last changed. */
+    ageSeconds: number;
+    /** Locales with a cached status map. */
+    locales: string[];
+    /** Quests whose blocker chain is deeper than maxQuestDepth; empty until lock reasons were computed. */
+    depthLimitHits: string[];
+}
+
+export interface QuestCycle 
+{
+    questIds: string[];
+    questNames: string[];
+}
+
+export interface RouteTiming 
+{
+    count: number;
+    averageMs: number;
+    maxMs: number;
+    lastMs: number;
+}
+
+export interface DiagnosticsResponse 
+{
+    prerequisiteCache: PrerequisiteCacheDiagnostics;
+    profileCache: ProfileCacheDiagnostics[];
+    maxQuestDepth: number;
+    cycles: QuestCycle[];
+    danglingPrerequisites: { questId: string; prerequisiteId: string }[];
+    /** Request durations by route since the server started. */
+    timing: { [route: string]: RouteTiming };
+    excludedProfiles: ExcludedProfile[];
+}
+
+export interface RebuildResponse 
+{
+    rebuilt: boolean;
+    durationMs: number;
+    prerequisiteCache: PrerequisiteCacheDiagnostics;
+}
+
+export interface WebhookTestResult 
+{
+    /** Host of the target's URL; the rest of it may hold a secret token. */
+    host: string;
+    format: WebhookFormat;
+    /** False when the target rejected the event or could not be reached; the test does not retry. */
+    delivered: boolean;
+    /** Why the first failed attempt failed, e.g. "HTTP 500" or the network error. */
+    error?: string;
+}
+
+export interface WebhookTestResponse 
+{
+    /** One entry per configured target, in config order. */
+    results: WebhookTestResult[];
+}